@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useOriginalImage } from '../../hooks/useOriginalImage';
+import { formatFileSize } from '../../lib/utils';
+import { ConversionResult } from '../../types/conversion';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+
+export interface ComparisonViewerProps {
+  result: ConversionResult;
+  onClose?: () => void;
+  className?: string;
+}
+
+interface ViewState {
+  /** CSS pixels per source pixel */
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_ZOOM = 16; // source pixels shown as 16x16 device pixels at most
+const ZOOM_STEP = 1.5;
+
+type DragMode = 'pan' | 'split';
+
+/**
+ * Before/after view of one conversion. The original decode sits underneath
+ * and the converted output is clipped to the right of a draggable divider;
+ * both layers share one pan/zoom, so the same pixels always line up. A
+ * resized output is stretched over the original for the comparison, and a
+ * cover-cropped one over the region it kept.
+ */
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({
+  result,
+  onClose,
+  className = '',
+}) => {
+  const original = useOriginalImage(result.originalFile);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{
+    mode: DragMode;
+    startX: number;
+    startY: number;
+    view: ViewState;
+  } | null>(null);
+
+  const [naturalSize, setNaturalSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [view, setView] = useState<ViewState>({ scale: 1, x: 0, y: 0 });
+  const [split, setSplit] = useState(50);
+
+  const getFitScale = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !naturalSize) return 1;
+    return Math.min(
+      viewport.clientWidth / naturalSize.width,
+      viewport.clientHeight / naturalSize.height,
+      1
+    );
+  }, [naturalSize]);
+
+  /**
+   * Changes the scale, keeping the source pixel under `anchor` (the centre
+   * by default) in place
+   */
+  const zoom = useCallback(
+    (
+      getScale: (current: number) => number,
+      anchor?: { x: number; y: number }
+    ) => {
+      const viewport = viewportRef.current;
+      if (!viewport) return;
+
+      const minScale = getFitScale() / 2;
+      const maxScale = MAX_ZOOM / window.devicePixelRatio;
+      const point = anchor ?? {
+        x: viewport.clientWidth / 2,
+        y: viewport.clientHeight / 2,
+      };
+
+      setView((current) => {
+        const next = Math.min(
+          Math.max(getScale(current.scale), minScale),
+          maxScale
+        );
+        return {
+          scale: next,
+          x: point.x - ((point.x - current.x) * next) / current.scale,
+          y: point.y - ((point.y - current.y) * next) / current.scale,
+        };
+      });
+    },
+    [getFitScale]
+  );
+
+  const fitToView = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !naturalSize) return;
+
+    const scale = getFitScale();
+    setView({
+      scale,
+      x: (viewport.clientWidth - naturalSize.width * scale) / 2,
+      y: (viewport.clientHeight - naturalSize.height * scale) / 2,
+    });
+  }, [getFitScale, naturalSize]);
+
+  useEffect(() => {
+    fitToView();
+  }, [fitToView]);
+
+  // React registers wheel listeners as passive, which rules out preventDefault
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const factor = Math.exp(-event.deltaY / 300);
+      zoom((scale) => scale * factor, {
+        x: event.clientX - rect.left,
+        y: event.clientY - rect.top,
+      });
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoom]);
+
+  const updateSplit = (clientX: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    setSplit(
+      Math.min(Math.max(((clientX - rect.left) / rect.width) * 100, 0), 100)
+    );
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const mode: DragMode =
+      (event.target as HTMLElement).dataset.handle === 'split'
+        ? 'split'
+        : 'pan';
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      mode,
+      startX: event.clientX,
+      startY: event.clientY,
+      view,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    if (drag.mode === 'split') {
+      updateSplit(event.clientX);
+      return;
+    }
+    setView({
+      ...drag.view,
+      x: drag.view.x + event.clientX - drag.startX,
+      y: drag.view.y + event.clientY - drag.startY,
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  const handleSplitKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? 10 : 2;
+    if (event.key === 'ArrowLeft') {
+      setSplit((value) => Math.max(value - step, 0));
+    }
+    if (event.key === 'ArrowRight') {
+      setSplit((value) => Math.min(value + step, 100));
+    }
+  };
+
+  // At 1:1 every source pixel covers exactly one device pixel
+  const actualPixelScale =
+    typeof window === 'undefined' ? 1 : 1 / window.devicePixelRatio;
+  const layerStyle: React.CSSProperties = naturalSize
+    ? {
+        width: naturalSize.width,
+        height: naturalSize.height,
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+        transformOrigin: '0 0',
+        // Show individual pixels once zoomed past 1:1 instead of smoothing
+        imageRendering: view.scale > actualPixelScale ? 'pixelated' : undefined,
+      }
+    : { visibility: 'hidden' };
+  const region = result.sourceRegion;
+  const convertedLayerStyle: React.CSSProperties =
+    naturalSize && region
+      ? {
+          ...layerStyle,
+          width: naturalSize.width * region.width,
+          height: naturalSize.height * region.height,
+          transform:
+            `translate(${view.x + region.x * naturalSize.width * view.scale}px, ` +
+            `${view.y + region.y * naturalSize.height * view.scale}px) ` +
+            `scale(${view.scale})`,
+        }
+      : layerStyle;
+
+  const originalSize = result.originalFile.size;
+  const convertedSize = result.convertedBlob.size;
+  const sizeChange = Math.round((convertedSize / originalSize - 1) * 100);
+
+  return (
+    <Card className={className} variant="bordered">
+      <CardHeader className="flex items-center justify-between">
+        <CardTitle className="truncate">{result.fileName}</CardTitle>
+        <div className="flex items-center space-x-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => zoom((scale) => scale / ZOOM_STEP)}
+            aria-label="Zoom out"
+          >
+            −
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => zoom((scale) => scale * ZOOM_STEP)}
+            aria-label="Zoom in"
+          >
+            +
+          </Button>
+          <Button size="sm" variant="outline" onClick={fitToView}>
+            Fit
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => zoom(() => actualPixelScale)}
+          >
+            1:1
+          </Button>
+          {onClose && (
+            <Button size="sm" variant="ghost" onClick={onClose}>
+              Close
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div
+          ref={viewportRef}
+          className="relative h-96 overflow-hidden rounded-lg bg-gray-100 cursor-grab select-none touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {original.url && (
+            <img
+              src={original.url}
+              alt={`${result.originalFile.name} (original)`}
+              className="absolute left-0 top-0 max-w-none"
+              style={layerStyle}
+              draggable={false}
+              onLoad={(event) =>
+                setNaturalSize({
+                  width: event.currentTarget.naturalWidth,
+                  height: event.currentTarget.naturalHeight,
+                })
+              }
+            />
+          )}
+
+          <div
+            className="absolute inset-0"
+            style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+          >
+            <img
+              src={result.downloadUrl}
+              alt={`${result.fileName} (converted)`}
+              className="absolute left-0 top-0 max-w-none"
+              style={convertedLayerStyle}
+              draggable={false}
+            />
+          </div>
+
+          <div
+            data-handle="split"
+            role="slider"
+            tabIndex={0}
+            aria-label="Comparison divider"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(split)}
+            className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center focus:outline-none"
+            style={{ left: `${split}%` }}
+            onKeyDown={handleSplitKeyDown}
+          >
+            <div className="pointer-events-none w-0.5 h-full bg-white shadow" />
+          </div>
+
+          <span className="pointer-events-none absolute left-2 top-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+            Original
+          </span>
+          <span className="pointer-events-none absolute right-2 top-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+            Converted
+          </span>
+
+          {(original.isLoading || original.error) && (
+            <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+              <p className="rounded bg-white/80 px-3 py-1 text-sm text-gray-600">
+                {original.error ?? 'Decoding original...'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <dl className="mt-3 grid grid-cols-2 gap-4 text-xs text-gray-600">
+          <div>
+            <dt className="font-medium text-gray-900">Original</dt>
+            <dd>
+              {naturalSize
+                ? `${naturalSize.width}×${naturalSize.height} • `
+                : ''}
+              {formatFileSize(originalSize)}
+            </dd>
+          </div>
+          <div className="text-right">
+            <dt className="font-medium text-gray-900">Converted</dt>
+            <dd>
+              {result.width}×{result.height} • {formatFileSize(convertedSize)}
+              {` (${sizeChange > 0 ? '+' : ''}${sizeChange}%)`}
+              {result.quality !== undefined && ` • quality ${result.quality}`}
+            </dd>
+          </div>
+        </dl>
+
+        <p className="mt-2 text-xs text-gray-500">
+          Zoom {Math.round((view.scale / actualPixelScale) * 100)}% of actual
+          pixels
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,32 +1,82 @@
-import React from 'react';
+import React, { useState } from 'react';
+import type { AuxiliaryKind } from '../../lib/conversion/types';
+import {
+  ConversionFile,
+  ConversionFileStatus,
+  ConversionProgress,
+  ConversionResult,
+  ConversionSettings,
+  ConversionSettingsOverrides,
+} from '../../types/conversion';
 import { Card, CardContent, Progress, Button } from '../ui';
+import { FileOverridesEditor } from './FileOverridesEditor';
 
-export interface ConversionItem {
-  id: string;
-  file: File;
-  status: 'pending' | 'processing' | 'completed' | 'error';
-  progress: number;
-  outputFormat: 'jpeg' | 'png' | 'webp';
-  error?: string;
-  outputUrl?: string;
-}
+const AUXILIARY_LABELS: Record<AuxiliaryKind, string> = {
+  depth: 'Depth map',
+  alpha: 'Alpha channel',
+  matte: 'Matte',
+  'gain-map': 'Gain map',
+};
 
 export interface ConversionQueueProps {
-  items: ConversionItem[];
+  files: ConversionFile[];
+  progress: Record<string, ConversionProgress>;
+  results: Record<string, ConversionResult>;
+  /** Global settings, shown for files without overrides */
+  settings: ConversionSettings;
   onRemoveItem: (id: string) => void;
   onRetryItem: (id: string) => void;
   onDownloadItem: (id: string) => void;
+  onDownloadAuxiliary?: (id: string, fileName: string) => void;
+  onCancelItem?: (id: string) => void;
+  onPauseItem?: (id: string) => void;
+  onResumeItem?: (id: string) => void;
+  /** Enables editing per-file settings */
+  onUpdateOverrides?: (
+    ids: string[],
+    overrides: ConversionSettingsOverrides | undefined
+  ) => void;
   className?: string;
 }
 
+const hasOverrides = (item: ConversionFile): boolean =>
+  !!item.overrides &&
+  Object.values(item.overrides).some((value) => value !== undefined);
+
 export const ConversionQueue: React.FC<ConversionQueueProps> = ({
-  items,
+  files,
+  progress,
+  results,
+  settings,
   onRemoveItem,
   onRetryItem,
   onDownloadItem,
+  onDownloadAuxiliary,
+  onCancelItem,
+  onPauseItem,
+  onResumeItem,
+  onUpdateOverrides,
   className = '',
 }) => {
-  const getStatusIcon = (status: ConversionItem['status']) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [bulkOverrides, setBulkOverrides] =
+    useState<ConversionSettingsOverrides>({});
+
+  const canCustomise = !!onUpdateOverrides;
+  // Removed files may linger in the selection, so read it through `files`
+  const selectedIds = files
+    .filter((item) => selected.has(item.id))
+    .map((item) => item.id);
+
+  const toggleSelected = (id: string, isSelected: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (isSelected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  const getStatusIcon = (status: ConversionFileStatus) => {
     switch (status) {
       case 'pending':
         return (
@@ -44,7 +94,7 @@ export const ConversionQueue: React.FC<ConversionQueueProps> = ({
             />
           </svg>
         );
-      case 'processing':
+      case 'converting':
         return (
           <svg
             className="animate-spin w-5 h-5 text-blue-600"
@@ -82,6 +132,38 @@ export const ConversionQueue: React.FC<ConversionQueueProps> = ({
             />
           </svg>
         );
+      case 'paused':
+        return (
+          <svg
+            className="w-5 h-5 text-yellow-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z"
+            />
+          </svg>
+        );
+      case 'cancelled':
+        return (
+          <svg
+            className="w-5 h-5 text-gray-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+            />
+          </svg>
+        );
       case 'error':
         return (
           <svg
@@ -107,7 +189,7 @@ export const ConversionQueue: React.FC<ConversionQueueProps> = ({
     return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
   };
 
-  if (items.length === 0) {
+  if (files.length === 0) {
     return (
       <Card className={className}>
         <CardContent>
@@ -136,97 +218,288 @@ export const ConversionQueue: React.FC<ConversionQueueProps> = ({
 
   return (
     <div className={`space-y-3 ${className}`}>
-      {items.map((item) => (
-        <Card key={item.id} variant="bordered">
-          <CardContent className="p-4">
-            <div className="flex items-start space-x-4">
-              <div className="flex-shrink-0 mt-1">
-                {getStatusIcon(item.status)}
-              </div>
+      {canCustomise && (
+        <Card variant="bordered">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.length === files.length}
+                  onChange={(e) =>
+                    setSelected(
+                      new Set(
+                        e.target.checked ? files.map((item) => item.id) : []
+                      )
+                    )
+                  }
+                />
+                <span>
+                  {selectedIds.length > 0
+                    ? `${selectedIds.length} selected`
+                    : 'Select all'}
+                </span>
+              </label>
+              {selectedIds.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onUpdateOverrides(selectedIds, undefined)}
+                >
+                  Reset selected to defaults
+                </Button>
+              )}
+            </div>
+
+            {selectedIds.length > 0 && (
+              <>
+                <FileOverridesEditor
+                  overrides={bulkOverrides}
+                  defaults={settings}
+                  onChange={setBulkOverrides}
+                  idPrefix="bulk-overrides"
+                />
+                <Button
+                  size="sm"
+                  variant="primary"
+                  onClick={() => onUpdateOverrides(selectedIds, bulkOverrides)}
+                >
+                  Apply to selected
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center justify-between">
-                  <h4 className="text-sm font-medium text-gray-900 truncate">
-                    {item.file.name}
-                  </h4>
-                  <span className="text-xs text-gray-500">
-                    {formatFileSize(item.file.size)}
-                  </span>
+      {files.map((item) => {
+        const itemProgress = progress[item.id];
+        const result = results[item.id];
+        const percentage = itemProgress?.percentage ?? 0;
+        const outputFormat =
+          result?.format ??
+          item.overrides?.outputFormat ??
+          settings.outputFormat;
+
+        return (
+          <Card key={item.id} variant="bordered">
+            <CardContent className="p-4">
+              <div className="flex items-start space-x-4">
+                {canCustomise && (
+                  <input
+                    type="checkbox"
+                    className="mt-1.5"
+                    aria-label={`Select ${item.name}`}
+                    checked={selected.has(item.id)}
+                    onChange={(e) => toggleSelected(item.id, e.target.checked)}
+                  />
+                )}
+                <div className="flex-shrink-0 mt-1">
+                  {getStatusIcon(item.status)}
                 </div>
 
-                <div className="mt-1 flex items-center space-x-2">
-                  <span className="text-xs text-gray-500">
-                    To {item.outputFormat.toUpperCase()}
-                  </span>
-                  {item.status === 'processing' && (
-                    <span className="text-xs text-blue-600">
-                      {item.progress}%
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-900 truncate">
+                      {item.name}
+                      {item.image && (
+                        <span className="ml-1 text-gray-500">
+                          · Image {item.image.index + 1}
+                        </span>
+                      )}
+                    </h4>
+                    <span className="text-xs text-gray-500">
+                      {formatFileSize(item.size)}
                     </span>
-                  )}
-                  {item.status === 'error' && (
-                    <span className="text-xs text-red-600">
-                      {item.error || 'Conversion failed'}
+                  </div>
+
+                  <div className="mt-1 flex items-center space-x-2">
+                    <span className="text-xs text-gray-500">
+                      To {outputFormat.toUpperCase()}
                     </span>
+                    {hasOverrides(item) && (
+                      <span className="rounded bg-blue-50 px-1.5 text-xs text-blue-700">
+                        Custom settings
+                      </span>
+                    )}
+                    {item.status === 'converting' && (
+                      <span className="text-xs text-blue-600">
+                        {percentage}%
+                      </span>
+                    )}
+                    {item.status === 'error' && (
+                      <span className="text-xs text-red-600">
+                        {itemProgress?.error || 'Conversion failed'}
+                        {item.attempts && item.attempts > 1
+                          ? ` (after ${item.attempts} attempts)`
+                          : ''}
+                      </span>
+                    )}
+                    {item.status === 'completed' && itemProgress?.error && (
+                      <span className="text-xs text-yellow-600">
+                        {itemProgress.error}
+                      </span>
+                    )}
+                    {item.status === 'completed' &&
+                      !itemProgress?.error &&
+                      itemProgress?.message && (
+                        <span className="text-xs text-green-600">
+                          {itemProgress.message}
+                        </span>
+                      )}
+                    {item.status === 'paused' && (
+                      <span className="text-xs text-yellow-600">Paused</span>
+                    )}
+                    {item.status === 'cancelled' && (
+                      <span className="text-xs text-gray-500">Cancelled</span>
+                    )}
+                  </div>
+
+                  {item.status === 'converting' && (
+                    <div className="mt-2">
+                      <Progress
+                        value={percentage}
+                        size="sm"
+                        variant="default"
+                      />
+                    </div>
                   )}
                 </div>
 
-                {item.status === 'processing' && (
-                  <div className="mt-2">
-                    <Progress
-                      value={item.progress}
+                <div className="flex-shrink-0 flex items-center space-x-2">
+                  {item.status === 'completed' && (
+                    <Button
                       size="sm"
-                      variant="default"
-                    />
-                  </div>
-                )}
-              </div>
+                      variant="primary"
+                      onClick={() => onDownloadItem(item.id)}
+                    >
+                      Download
+                    </Button>
+                  )}
 
-              <div className="flex-shrink-0 flex items-center space-x-2">
-                {item.status === 'completed' && (
-                  <Button
-                    size="sm"
-                    variant="primary"
-                    onClick={() => onDownloadItem(item.id)}
-                  >
-                    Download
-                  </Button>
-                )}
+                  {onDownloadAuxiliary &&
+                    item.status === 'completed' &&
+                    result?.auxiliaryFiles?.map((auxiliary) => (
+                      <Button
+                        key={auxiliary.fileName}
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          onDownloadAuxiliary(item.id, auxiliary.fileName)
+                        }
+                      >
+                        {AUXILIARY_LABELS[auxiliary.kind]}
+                      </Button>
+                    ))}
+
+                  {(item.status === 'error' || item.status === 'cancelled') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onRetryItem(item.id)}
+                    >
+                      Retry
+                    </Button>
+                  )}
+
+                  {canCustomise && item.status !== 'converting' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      aria-expanded={editingId === item.id}
+                      onClick={() =>
+                        setEditingId(editingId === item.id ? null : item.id)
+                      }
+                    >
+                      Customise
+                    </Button>
+                  )}
+
+                  {onPauseItem &&
+                    (item.status === 'pending' ||
+                      item.status === 'converting') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onPauseItem(item.id)}
+                      >
+                        Pause
+                      </Button>
+                    )}
+
+                  {onResumeItem && item.status === 'paused' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onResumeItem(item.id)}
+                    >
+                      Resume
+                    </Button>
+                  )}
+
+                  {onCancelItem &&
+                    (item.status === 'pending' ||
+                      item.status === 'converting' ||
+                      item.status === 'paused') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onCancelItem(item.id)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
 
-                {item.status === 'error' && (
                   <Button
                     size="sm"
-                    variant="outline"
-                    onClick={() => onRetryItem(item.id)}
+                    variant="ghost"
+                    onClick={() => onRemoveItem(item.id)}
+                    className="text-gray-400 hover:text-gray-600"
                   >
-                    Retry
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M6 18L18 6M6 6l12 12"
+                      />
+                    </svg>
                   </Button>
-                )}
+                </div>
+              </div>
 
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => onRemoveItem(item.id)}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <svg
-                    className="w-4 h-4"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M6 18L18 6M6 6l12 12"
+              {canCustomise &&
+                editingId === item.id &&
+                item.status !== 'converting' && (
+                  <div className="mt-4 border-t border-gray-100 pt-4 space-y-3">
+                    <FileOverridesEditor
+                      overrides={item.overrides}
+                      defaults={settings}
+                      onChange={(overrides) =>
+                        onUpdateOverrides([item.id], overrides)
+                      }
+                      idPrefix={`overrides-${item.id}`}
                     />
-                  </svg>
-                </Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+                    {hasOverrides(item) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onUpdateOverrides([item.id], undefined)}
+                      >
+                        Reset to defaults
+                      </Button>
+                    )}
+                  </div>
+                )}
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 };
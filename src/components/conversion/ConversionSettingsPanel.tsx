@@ -0,0 +1,359 @@
+import React from 'react';
+import {
+  QUALITY_PRESETS,
+  RESAMPLING_FILTERS,
+  SUPPORTED_OUTPUT_FORMATS,
+} from '../../lib/constants';
+import type {
+  ColorManagementMode,
+  GainMapMode,
+  ResamplingFilter,
+} from '../../lib/conversion/types';
+import {
+  ConversionSettings,
+  ResizePreset,
+  ResizeSettings,
+} from '../../types/conversion';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+import { FileNameTemplateInput } from './FileNameTemplateInput';
+import { ResizeControls } from './ResizeControls';
+
+export interface ConversionSettingsPanelProps {
+  settings: ConversionSettings;
+  onSettingsChange: (settings: Partial<ConversionSettings>) => void;
+  resizePresets?: ResizePreset[];
+  onSaveResizePreset?: (label: string, resize: ResizeSettings) => void;
+  onDeleteResizePreset?: (id: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+type QualityPreset = keyof typeof QUALITY_PRESETS;
+type LossyFormat = keyof (typeof QUALITY_PRESETS)[QualityPreset];
+
+const PRESET_LABELS: Record<QualityPreset, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  maximum: 'Maximum',
+};
+
+// Only these formats write their full pixel precision
+const HIGH_BIT_DEPTH_FORMATS: ConversionSettings['outputFormat'][] = [
+  'png',
+  'tiff',
+];
+
+function isLossyFormat(format: string): format is LossyFormat {
+  return format in QUALITY_PRESETS.high;
+}
+
+const FORMAT_OPTIONS = SUPPORTED_OUTPUT_FORMATS.map((format) => ({
+  value: format.value,
+  label: format.label,
+  presetKey: isLossyFormat(format.value) ? format.value : null,
+}));
+
+export const ConversionSettingsPanel: React.FC<
+  ConversionSettingsPanelProps
+> = ({
+  settings,
+  onSettingsChange,
+  resizePresets,
+  onSaveResizePreset,
+  onDeleteResizePreset,
+  disabled = false,
+  className = '',
+}) => {
+  const selected =
+    FORMAT_OPTIONS.find((option) => option.value === settings.outputFormat) ??
+    FORMAT_OPTIONS[0];
+  const presetKey = selected.presetKey;
+
+  const handleFormatChange = (
+    outputFormat: ConversionSettings['outputFormat']
+  ) => {
+    const next = FORMAT_OPTIONS.find((option) => option.value === outputFormat);
+    // Quality scales differ between codecs, so keep the same preset level
+    const preset = (Object.keys(QUALITY_PRESETS) as QualityPreset[]).find(
+      (key) => presetKey && QUALITY_PRESETS[key][presetKey] === settings.quality
+    );
+
+    onSettingsChange({
+      outputFormat,
+      ...(preset && next?.presetKey
+        ? { quality: QUALITY_PRESETS[preset][next.presetKey] }
+        : {}),
+      // Ultra HDR is a JPEG container feature
+      ...(settings.gainMap === 'ultra-hdr' && outputFormat !== 'jpeg'
+        ? { gainMap: 'ignore' as const }
+        : {}),
+    });
+  };
+
+  return (
+    <Card className={className} variant="bordered">
+      <CardHeader>
+        <CardTitle>Output settings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label
+            htmlFor="output-format"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Format
+          </label>
+          <select
+            id="output-format"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            value={selected.value}
+            disabled={disabled}
+            onChange={(e) =>
+              handleFormatChange(
+                e.target.value as ConversionSettings['outputFormat']
+              )
+            }
+          >
+            {FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <ResizeControls
+          resize={settings.resize}
+          onResizeChange={(resize) => onSettingsChange({ resize })}
+          savedPresets={resizePresets}
+          onSavePreset={onSaveResizePreset}
+          onDeletePreset={onDeleteResizePreset}
+          disabled={disabled}
+        />
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label
+              htmlFor="output-resampling"
+              className="block text-xs font-medium text-gray-600"
+            >
+              Resampling
+            </label>
+            <select
+              id="output-resampling"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={settings.resampling ?? ''}
+              disabled={disabled}
+              onChange={(e) =>
+                onSettingsChange({
+                  resampling: (e.target.value as ResamplingFilter) || undefined,
+                })
+              }
+            >
+              {RESAMPLING_FILTERS.map((filter) => (
+                <option key={filter.value} value={filter.value}>
+                  {filter.label}
+                </option>
+              ))}
+              <option value="">Browser default (fastest)</option>
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="output-sharpen"
+              className="block text-xs font-medium text-gray-600"
+            >
+              Sharpen after resize: {settings.sharpen ?? 0}
+            </label>
+            <input
+              id="output-sharpen"
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              className="mt-3 w-full"
+              value={settings.sharpen ?? 0}
+              disabled={disabled}
+              onChange={(e) =>
+                onSettingsChange({ sharpen: Number(e.target.value) })
+              }
+            />
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="output-color"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Colour profile
+          </label>
+          <select
+            id="output-color"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            value={settings.colorManagement ?? 'embed'}
+            disabled={disabled}
+            onChange={(e) =>
+              onSettingsChange({
+                colorManagement: e.target.value as ColorManagementMode,
+              })
+            }
+          >
+            <option value="embed">Keep original (e.g. Display P3)</option>
+            <option value="srgb">Convert to sRGB</option>
+          </select>
+        </div>
+
+        <div>
+          <label
+            htmlFor="output-gain-map"
+            className="block text-sm font-medium text-gray-700"
+          >
+            HDR gain map
+          </label>
+          <select
+            id="output-gain-map"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            value={settings.gainMap ?? 'ignore'}
+            disabled={disabled}
+            onChange={(e) =>
+              onSettingsChange({ gainMap: e.target.value as GainMapMode })
+            }
+          >
+            <option value="ignore">Ignore (standard image only)</option>
+            <option value="tone-map">Tone-map highlights into SDR</option>
+            <option value="export">Save gain map as a separate file</option>
+            {selected.value === 'jpeg' && (
+              <option value="ultra-hdr">Ultra HDR JPEG</option>
+            )}
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.exportDepthMap ?? false}
+            disabled={disabled}
+            onChange={(e) =>
+              onSettingsChange({ exportDepthMap: e.target.checked })
+            }
+          />
+          <span>Save depth map as greyscale PNG</span>
+        </label>
+
+        {HIGH_BIT_DEPTH_FORMATS.includes(selected.value) && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.bitDepth === 16}
+              disabled={disabled}
+              onChange={(e) =>
+                onSettingsChange({ bitDepth: e.target.checked ? 16 : 8 })
+              }
+            />
+            <span>16-bit (full precision, larger files)</span>
+          </label>
+        )}
+
+        {presetKey && (
+          <div>
+            <label
+              htmlFor="output-quality"
+              className="flex items-center justify-between text-sm font-medium text-gray-700"
+            >
+              <span>
+                {settings.maxFileSizeKb ? 'Maximum quality' : 'Quality'}
+              </span>
+              <span className="text-gray-500">{settings.quality}</span>
+            </label>
+            <input
+              id="output-quality"
+              type="range"
+              min={1}
+              max={100}
+              className="mt-1 w-full"
+              value={settings.quality}
+              disabled={disabled}
+              onChange={(e) =>
+                onSettingsChange({ quality: Number(e.target.value) })
+              }
+            />
+            <div className="mt-2 flex flex-wrap gap-2">
+              {(Object.keys(QUALITY_PRESETS) as QualityPreset[]).map((key) => (
+                <Button
+                  key={key}
+                  size="sm"
+                  variant={
+                    QUALITY_PRESETS[key][presetKey] === settings.quality
+                      ? 'primary'
+                      : 'outline'
+                  }
+                  disabled={disabled}
+                  onClick={() =>
+                    onSettingsChange({
+                      quality: QUALITY_PRESETS[key][presetKey],
+                    })
+                  }
+                >
+                  {PRESET_LABELS[key]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {presetKey && settings.gainMap !== 'ultra-hdr' && (
+          <div>
+            <label
+              htmlFor="output-max-size"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Maximum file size (KB)
+            </label>
+            <input
+              id="output-max-size"
+              type="number"
+              min={1}
+              placeholder="No limit"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={settings.maxFileSizeKb ?? ''}
+              disabled={disabled}
+              onChange={(e) =>
+                onSettingsChange({
+                  maxFileSizeKb:
+                    Number(e.target.value) > 0
+                      ? Number(e.target.value)
+                      : undefined,
+                })
+              }
+            />
+            {settings.maxFileSizeKb && (
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.downscaleToFit ?? false}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    onSettingsChange({ downscaleToFit: e.target.checked })
+                  }
+                />
+                <span>Downscale when lowering quality isn&apos;t enough</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        <FileNameTemplateInput
+          template={settings.fileNameTemplate}
+          onTemplateChange={(fileNameTemplate) =>
+            onSettingsChange({ fileNameTemplate })
+          }
+          format={selected.value}
+          quality={presetKey ? settings.quality : undefined}
+          disabled={disabled}
+        />
+      </CardContent>
+    </Card>
+  );
+};
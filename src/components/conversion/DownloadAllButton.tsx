@@ -0,0 +1,57 @@
+import React from 'react';
+import { ZipProgress } from '../../lib/zip';
+import { Button, Progress } from '../ui';
+
+export interface DownloadAllButtonProps {
+  fileCount: number;
+  progress: ZipProgress | null;
+  onDownloadAll: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const DownloadAllButton: React.FC<DownloadAllButtonProps> = ({
+  fileCount,
+  progress,
+  onDownloadAll,
+  disabled = false,
+  className = '',
+}) => {
+  const isPackaging = progress !== null;
+
+  return (
+    <div className={className}>
+      <Button
+        variant="primary"
+        onClick={onDownloadAll}
+        isLoading={isPackaging}
+        disabled={disabled || fileCount === 0}
+      >
+        {isPackaging
+          ? 'Creating ZIP...'
+          : fileCount > 1
+            ? `Download all (${fileCount}) as ZIP`
+            : 'Download'}
+      </Button>
+
+      {isPackaging && (
+        <div className="mt-3">
+          <Progress
+            value={progress.processedBytes}
+            max={progress.totalBytes || 1}
+            size="sm"
+            showLabel
+          />
+          <p className="mt-1 text-xs text-gray-500 truncate">
+            {progress.currentFile
+              ? `Adding ${progress.currentFile} (${Math.min(
+                  progress.entriesWritten + 1,
+                  progress.totalEntries
+                )} of ${progress.totalEntries})`
+              : 'Finishing archive...'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
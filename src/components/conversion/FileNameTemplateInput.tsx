@@ -0,0 +1,95 @@
+import React from 'react';
+import {
+  FileNameToken,
+  getUnknownTokens,
+  renderFileNameTemplate,
+} from '../../lib/conversion';
+import type { ImageFormat } from '../../lib/conversion/types';
+
+export interface FileNameTemplateInputProps {
+  template?: string;
+  onTemplateChange: (template: string | undefined) => void;
+  /** Output format and quality the preview is rendered with */
+  format: ImageFormat;
+  quality?: number;
+  disabled?: boolean;
+}
+
+const TOKEN_HELP: { token: FileNameToken; example: string; label: string }[] = [
+  { token: 'name', example: '{name}', label: 'original name' },
+  { token: 'index', example: '{index:03}', label: 'position in queue' },
+  { token: 'image', example: '{image}', label: 'image within the HEIC' },
+  { token: 'date', example: '{date:YYYY-MM-DD}', label: 'date taken' },
+  { token: 'camera', example: '{camera}', label: 'camera model' },
+  { token: 'width', example: '{width}', label: 'width' },
+  { token: 'height', example: '{height}', label: 'height' },
+  { token: 'format', example: '{format}', label: 'format' },
+  { token: 'ext', example: '{ext}', label: 'extension' },
+  { token: 'quality', example: '{quality}', label: 'quality' },
+];
+
+// Fixed so the preview doesn't change between renders (or server and client)
+const SAMPLE_FILE = {
+  originalName: 'IMG_0001.HEIC',
+  index: 1,
+  date: new Date(2024, 8, 14, 9, 41, 0),
+  camera: 'Apple iPhone 15 Pro',
+  width: 4032,
+  height: 3024,
+};
+
+export const FileNameTemplateInput: React.FC<FileNameTemplateInputProps> = ({
+  template = '',
+  onTemplateChange,
+  format,
+  quality,
+  disabled = false,
+}) => {
+  const unknownTokens = getUnknownTokens(template);
+  const preview = renderFileNameTemplate(template.trim() || '{name}', {
+    ...SAMPLE_FILE,
+    format,
+    quality,
+  });
+
+  return (
+    <div>
+      <label
+        htmlFor="output-file-name"
+        className="block text-sm font-medium text-gray-700"
+      >
+        File names
+      </label>
+      <input
+        id="output-file-name"
+        type="text"
+        placeholder="{name}.{ext}"
+        spellCheck={false}
+        className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm"
+        value={template}
+        disabled={disabled}
+        onChange={(e) => onTemplateChange(e.target.value || undefined)}
+      />
+      <p className="mt-1 text-xs text-gray-600">
+        {SAMPLE_FILE.originalName} →{' '}
+        <span className="font-mono text-gray-900">{preview}</span>
+      </p>
+      {unknownTokens.length > 0 && (
+        <p className="mt-1 text-xs text-yellow-600">
+          Unknown {unknownTokens.length === 1 ? 'token' : 'tokens'}{' '}
+          {unknownTokens.map((token) => `{${token}}`).join(', ')} will be kept
+          as typed
+        </p>
+      )}
+      <p className="mt-1 text-xs text-gray-500">
+        {TOKEN_HELP.map(({ token, example, label }, index) => (
+          <React.Fragment key={token}>
+            {index > 0 && ' · '}
+            <code>{example}</code> {label}
+          </React.Fragment>
+        ))}
+        . Names already taken get a number, like <code>photo (1).jpg</code>.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import { SUPPORTED_OUTPUT_FORMATS } from '../../lib/constants';
+import {
+  ConversionSettings,
+  ConversionSettingsOverrides,
+} from '../../types/conversion';
+import { ResizeControls } from './ResizeControls';
+
+export interface FileOverridesEditorProps {
+  overrides?: ConversionSettingsOverrides;
+  /** The global settings, shown for whatever isn't overridden */
+  defaults: ConversionSettings;
+  onChange: (overrides: ConversionSettingsOverrides) => void;
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+type OutputFormat = ConversionSettings['outputFormat'];
+
+const LOSSY_FORMATS: OutputFormat[] = ['jpeg', 'webp', 'avif'];
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm';
+
+/** Format, quality and size for a single file, left blank to follow defaults */
+export const FileOverridesEditor: React.FC<FileOverridesEditorProps> = ({
+  overrides = {},
+  defaults,
+  onChange,
+  idPrefix,
+  disabled = false,
+}) => {
+  const outputFormat = overrides.outputFormat ?? defaults.outputFormat;
+  const update = (changes: ConversionSettingsOverrides) =>
+    onChange({ ...overrides, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label
+            htmlFor={`${idPrefix}-format`}
+            className="block text-xs font-medium text-gray-600"
+          >
+            Format
+          </label>
+          <select
+            id={`${idPrefix}-format`}
+            className={inputClassName}
+            value={overrides.outputFormat ?? ''}
+            disabled={disabled}
+            onChange={(e) =>
+              update({
+                outputFormat: (e.target.value as OutputFormat) || undefined,
+              })
+            }
+          >
+            <option value="">
+              Default ({defaults.outputFormat.toUpperCase()})
+            </option>
+            {SUPPORTED_OUTPUT_FORMATS.map((format) => (
+              <option key={format.value} value={format.value}>
+                {format.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {LOSSY_FORMATS.includes(outputFormat) && (
+          <div>
+            <label
+              htmlFor={`${idPrefix}-quality`}
+              className="block text-xs font-medium text-gray-600"
+            >
+              Quality
+            </label>
+            <input
+              id={`${idPrefix}-quality`}
+              type="number"
+              min={1}
+              max={100}
+              placeholder={`Default (${defaults.quality})`}
+              className={inputClassName}
+              value={overrides.quality ?? ''}
+              disabled={disabled}
+              onChange={(e) =>
+                update({
+                  quality: e.target.value
+                    ? Math.min(100, Math.max(1, Number(e.target.value)))
+                    : undefined,
+                })
+              }
+            />
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!overrides.resize}
+          disabled={disabled}
+          onChange={(e) =>
+            update({
+              resize: e.target.checked
+                ? (defaults.resize ?? { maintainAspectRatio: true })
+                : undefined,
+            })
+          }
+        />
+        <span>Custom size</span>
+      </label>
+
+      {overrides.resize && (
+        <ResizeControls
+          resize={overrides.resize}
+          onResizeChange={(resize) => update({ resize })}
+          idPrefix={`${idPrefix}-resize`}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+};
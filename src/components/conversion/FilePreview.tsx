@@ -1,4 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
+import { useFileThumbnail } from '../../hooks/useFileThumbnail';
+import { useHeifImages } from '../../hooks/useHeifImages';
+import { HeifImageInfo } from '../../lib/conversion/types';
 import { Card, CardContent } from '../ui';
 
 export interface FilePreviewProps {
@@ -6,6 +9,10 @@ export interface FilePreviewProps {
   previewUrl?: string;
   className?: string;
   onError?: (error: Error) => void;
+  /** Enables picking images out of multi-image HEIC files */
+  onImageSelectionChange?: (images: HeifImageInfo[]) => void;
+  /** Defaults to the primary image only */
+  selectedImageIds?: number[];
 }
 
 export const FilePreview: React.FC<FilePreviewProps> = ({
@@ -13,54 +20,37 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
   previewUrl,
   className = '',
   onError,
+  onImageSelectionChange,
+  selectedImageIds,
 }) => {
-  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (previewUrl) {
-      setThumbnailUrl(previewUrl);
-      setIsLoading(false);
-      return;
-    }
-
-    // For HEIC files, we can't generate a preview directly in the browser
-    // This would typically be handled by the conversion service
-    if (
-      file.type === 'image/heic' ||
-      file.type === 'image/heif' ||
-      file.name.match(/\.(heic|heif)$/i)
-    ) {
-      setIsLoading(false);
-      setError('HEIC preview requires conversion');
-      return;
-    }
-
-    // For other image types, create a preview
-    if (file.type.startsWith('image/')) {
-      const reader = new FileReader();
-
-      reader.onload = (e) => {
-        setThumbnailUrl(e.target?.result as string);
-        setIsLoading(false);
-      };
-
-      reader.onerror = () => {
-        setError('Failed to load preview');
-        setIsLoading(false);
-        if (onError) {
-          onError(new Error('Failed to load file preview'));
-        }
-      };
+  const thumbnail = useFileThumbnail(file, !previewUrl);
+  const { images } = useHeifImages(file, !!onImageSelectionChange);
+  const thumbnailUrl = previewUrl ?? thumbnail.thumbnailUrl;
+  const isLoading = !previewUrl && thumbnail.isLoading;
+  const error = previewUrl ? null : thumbnail.error;
+
+  const selectedIds =
+    selectedImageIds ??
+    images.filter((image) => image.isPrimary).map((image) => image.itemId);
+
+  const toggleImage = (itemId: number) => {
+    const next = selectedIds.includes(itemId)
+      ? selectedIds.filter((id) => id !== itemId)
+      : [...selectedIds, itemId];
+    // At least one image has to stay selected
+    if (next.length === 0) return;
+    onImageSelectionChange?.(
+      images.filter((image) => next.includes(image.itemId))
+    );
+  };
 
-      reader.readAsDataURL(file);
+  // Read through a ref so inline callbacks don't re-report the same failure
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
 
-      return () => {
-        reader.abort();
-      };
-    }
-  }, [file, previewUrl, onError]);
+  useEffect(() => {
+    if (error) onErrorRef.current?.(new Error('Failed to load file preview'));
+  }, [error]);
 
   const formatFileInfo = () => {
     const sizeInMB = (file.size / (1024 * 1024)).toFixed(2);
@@ -137,6 +127,34 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           </h4>
           <p className="text-xs text-gray-500 mt-1">{formatFileInfo()}</p>
         </div>
+
+        {images.length > 1 && (
+          <fieldset className="mt-3">
+            <legend className="text-xs font-medium text-gray-700">
+              {images.length} images in this file
+            </legend>
+            <div className="mt-1 space-y-1">
+              {images.map((image) => (
+                <label
+                  key={image.itemId}
+                  className="flex items-center space-x-2 text-xs text-gray-600"
+                >
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300"
+                    checked={selectedIds.includes(image.itemId)}
+                    onChange={() => toggleImage(image.itemId)}
+                  />
+                  <span>
+                    Image {image.index + 1}
+                    {image.isPrimary && ' (primary)'} • {image.width}×
+                    {image.height}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
       </CardContent>
     </Card>
   );
@@ -146,15 +164,18 @@ export interface FilePreviewGridProps {
   files: Array<{
     file: File;
     previewUrl?: string;
+    selectedImageIds?: number[];
   }>;
   className?: string;
   onError?: (file: File, error: Error) => void;
+  onImageSelectionChange?: (file: File, images: HeifImageInfo[]) => void;
 }
 
 export const FilePreviewGrid: React.FC<FilePreviewGridProps> = ({
   files,
   className = '',
   onError,
+  onImageSelectionChange,
 }) => {
   return (
     <div
@@ -166,6 +187,11 @@ export const FilePreviewGrid: React.FC<FilePreviewGridProps> = ({
           file={item.file}
           previewUrl={item.previewUrl}
           onError={(error) => onError?.(item.file, error)}
+          selectedImageIds={item.selectedImageIds}
+          onImageSelectionChange={
+            onImageSelectionChange &&
+            ((images) => onImageSelectionChange(item.file, images))
+          }
         />
       ))}
     </div>
@@ -0,0 +1,109 @@
+import React from 'react';
+import { ConflictPolicy } from '../../lib/file-system';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '../ui';
+
+export interface OutputFolderPanelProps {
+  /** False where the browser can't write to folders (Firefox, Safari) */
+  isSupported: boolean;
+  directoryName?: string;
+  conflictPolicy: ConflictPolicy;
+  onChooseFolder: () => void;
+  onClearFolder: () => void;
+  onConflictPolicyChange: (policy: ConflictPolicy) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const CONFLICT_POLICY_OPTIONS: { value: ConflictPolicy; label: string }[] = [
+  { value: 'rename', label: 'Keep both (add a number)' },
+  { value: 'overwrite', label: 'Replace the existing file' },
+  { value: 'skip', label: 'Skip the new file' },
+];
+
+export const OutputFolderPanel: React.FC<OutputFolderPanelProps> = ({
+  isSupported,
+  directoryName,
+  conflictPolicy,
+  onChooseFolder,
+  onClearFolder,
+  onConflictPolicyChange,
+  disabled = false,
+  className = '',
+}) => (
+  <Card className={className} variant="bordered">
+    <CardHeader>
+      <CardTitle>Save to folder</CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {!isSupported ? (
+        <p className="text-sm text-gray-600">
+          This browser can&apos;t save into a folder, so converted files are
+          downloaded instead (as a ZIP when there are several).
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            {directoryName ? (
+              <>
+                Each file is saved to <strong>{directoryName}</strong> as soon
+                as it&apos;s converted.
+              </>
+            ) : (
+              <>
+                Pick a folder to save each file to as soon as it&apos;s
+                converted, instead of downloading.
+              </>
+            )}
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <Button
+              size="sm"
+              variant={directoryName ? 'outline' : 'primary'}
+              onClick={onChooseFolder}
+              disabled={disabled}
+            >
+              {directoryName ? 'Change folder' : 'Choose folder'}
+            </Button>
+            {directoryName && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onClearFolder}
+                disabled={disabled}
+              >
+                Download instead
+              </Button>
+            )}
+          </div>
+
+          {directoryName && (
+            <div>
+              <label
+                htmlFor="output-folder-conflicts"
+                className="block text-sm font-medium text-gray-700"
+              >
+                If a file with the same name exists
+              </label>
+              <select
+                id="output-folder-conflicts"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={conflictPolicy}
+                disabled={disabled}
+                onChange={(e) =>
+                  onConflictPolicyChange(e.target.value as ConflictPolicy)
+                }
+              >
+                {CONFLICT_POLICY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </>
+      )}
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { DEFAULT_PDF_OPTIONS } from '../../lib/constants';
+import {
+  PdfCaptionSource,
+  PdfImageFit,
+  PdfImagesPerPage,
+  PdfLayoutOptions,
+  PdfOrientation,
+  PdfPageSize,
+  PdfProgress,
+} from '../../lib/pdf';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Progress,
+} from '../ui';
+
+export interface PdfExportPanelProps {
+  fileCount: number;
+  progress: PdfProgress | null;
+  onExport: (layout: PdfLayoutOptions) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const PAGE_SIZE_OPTIONS: { value: PdfPageSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'a3', label: 'A3' },
+  { value: 'letter', label: 'US Letter' },
+  { value: 'legal', label: 'US Legal' },
+];
+
+const IMAGES_PER_PAGE_OPTIONS: PdfImagesPerPage[] = [1, 2, 4, 6, 9];
+
+const CAPTION_OPTIONS: { value: PdfCaptionSource; label: string }[] = [
+  { value: 'none', label: 'No caption' },
+  { value: 'filename', label: 'File name' },
+  { value: 'date', label: 'Date taken' },
+];
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm';
+const labelClassName = 'block text-sm font-medium text-gray-700';
+
+export const PdfExportPanel: React.FC<PdfExportPanelProps> = ({
+  fileCount,
+  progress,
+  onExport,
+  disabled = false,
+  className = '',
+}) => {
+  const [layout, setLayout] = useState<PdfLayoutOptions>({
+    ...DEFAULT_PDF_OPTIONS,
+  });
+  const isExporting = progress !== null;
+  const isDisabled = disabled || isExporting;
+
+  const update = (changes: Partial<PdfLayoutOptions>) =>
+    setLayout((current) => ({ ...current, ...changes }));
+
+  return (
+    <Card className={className} variant="bordered">
+      <CardHeader>
+        <CardTitle>Export as PDF</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="pdf-page-size" className={labelClassName}>
+              Page size
+            </label>
+            <select
+              id="pdf-page-size"
+              className={selectClassName}
+              value={layout.pageSize}
+              disabled={isDisabled}
+              onChange={(e) =>
+                update({ pageSize: e.target.value as PdfPageSize })
+              }
+            >
+              {PAGE_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="pdf-orientation" className={labelClassName}>
+              Orientation
+            </label>
+            <select
+              id="pdf-orientation"
+              className={selectClassName}
+              value={layout.orientation}
+              disabled={isDisabled}
+              onChange={(e) =>
+                update({ orientation: e.target.value as PdfOrientation })
+              }
+            >
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="pdf-images-per-page" className={labelClassName}>
+              Images per page
+            </label>
+            <select
+              id="pdf-images-per-page"
+              className={selectClassName}
+              value={layout.imagesPerPage}
+              disabled={isDisabled}
+              onChange={(e) =>
+                update({
+                  imagesPerPage: Number(e.target.value) as PdfImagesPerPage,
+                })
+              }
+            >
+              {IMAGES_PER_PAGE_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="pdf-fit" className={labelClassName}>
+              Scaling
+            </label>
+            <select
+              id="pdf-fit"
+              className={selectClassName}
+              value={layout.fit}
+              disabled={isDisabled}
+              onChange={(e) => update({ fit: e.target.value as PdfImageFit })}
+            >
+              <option value="fit">Fit (show whole photo)</option>
+              <option value="fill">Fill (crop to cell)</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="pdf-margin" className={labelClassName}>
+              Margin (mm)
+            </label>
+            <input
+              id="pdf-margin"
+              type="number"
+              min={0}
+              max={50}
+              className={selectClassName}
+              value={layout.marginMm}
+              disabled={isDisabled}
+              onChange={(e) =>
+                update({ marginMm: Math.max(0, Number(e.target.value) || 0) })
+              }
+            />
+          </div>
+
+          <div>
+            <label htmlFor="pdf-caption" className={labelClassName}>
+              Caption
+            </label>
+            <select
+              id="pdf-caption"
+              className={selectClassName}
+              value={layout.caption}
+              disabled={isDisabled}
+              onChange={(e) =>
+                update({ caption: e.target.value as PdfCaptionSource })
+              }
+            >
+              {CAPTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <Button
+          variant="primary"
+          onClick={() => onExport(layout)}
+          isLoading={isExporting}
+          disabled={disabled || fileCount === 0}
+        >
+          {isExporting ? 'Creating PDF...' : `Export ${fileCount} as PDF`}
+        </Button>
+
+        {isExporting && (
+          <Progress
+            value={progress.imagesWritten}
+            max={progress.totalImages || 1}
+            size="sm"
+            showLabel
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import { RESIZE_PRESETS } from '../../lib/constants';
+import type { CropGravity, ResizeMode } from '../../lib/conversion/types';
+import { ResizePreset, ResizeSettings } from '../../types/conversion';
+import { Button } from '../ui';
+
+export interface ResizeControlsProps {
+  resize?: ResizeSettings;
+  onResizeChange: (resize: ResizeSettings) => void;
+  /** User-saved presets, listed after the built-in ones */
+  savedPresets?: ResizePreset[];
+  onSavePreset?: (label: string, resize: ResizeSettings) => void;
+  onDeletePreset?: (id: string) => void;
+  /** Keeps element ids unique when several instances are on the page */
+  idPrefix?: string;
+  disabled?: boolean;
+}
+
+type ModeChoice = ResizeMode | 'none';
+
+const MODE_LABELS: Record<ModeChoice, string> = {
+  none: 'Original size',
+  contain: 'Fit inside box',
+  cover: 'Fill box and crop',
+  stretch: 'Stretch to exact size',
+  'long-edge': 'Longest edge',
+  scale: 'Percentage',
+};
+
+const GRAVITY_LABELS: Record<CropGravity, string> = {
+  center: 'Centre',
+  top: 'Top',
+  bottom: 'Bottom',
+  left: 'Left',
+  right: 'Right',
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+};
+
+const ORIGINAL_SIZE: ResizeSettings = { maintainAspectRatio: true };
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm';
+
+function getModeChoice(resize: ResizeSettings | undefined): ModeChoice {
+  if (!resize) return 'none';
+  if (resize.mode) return resize.mode;
+  if (!resize.width && !resize.height) return 'none';
+  return resize.maintainAspectRatio ? 'contain' : 'stretch';
+}
+
+function isSameResize(a: ResizeSettings, b: ResizeSettings): boolean {
+  return (
+    getModeChoice(a) === getModeChoice(b) &&
+    a.width === b.width &&
+    a.height === b.height &&
+    a.scalePercent === b.scalePercent &&
+    (a.gravity ?? 'center') === (b.gravity ?? 'center') &&
+    !!a.neverUpscale === !!b.neverUpscale
+  );
+}
+
+const toPositive = (value: string): number | undefined =>
+  Number(value) > 0 ? Number(value) : undefined;
+
+export const ResizeControls: React.FC<ResizeControlsProps> = ({
+  resize = ORIGINAL_SIZE,
+  onResizeChange,
+  savedPresets = [],
+  onSavePreset,
+  onDeletePreset,
+  idPrefix = 'resize',
+  disabled = false,
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const mode = getModeChoice(resize);
+  const presets = [...RESIZE_PRESETS, ...savedPresets];
+  const activePreset = presets.find((preset) =>
+    isSameResize(preset.resize, resize)
+  );
+  const isSavedPreset =
+    !!activePreset && savedPresets.some(({ id }) => id === activePreset.id);
+
+  const update = (changes: Partial<ResizeSettings>) =>
+    onResizeChange({ ...resize, ...changes });
+
+  const handleModeChange = (choice: ModeChoice) => {
+    if (choice === 'none') {
+      onResizeChange(ORIGINAL_SIZE);
+      return;
+    }
+    update({
+      mode: choice,
+      maintainAspectRatio: choice !== 'stretch',
+      ...(choice === 'scale' && !resize.scalePercent
+        ? { scalePercent: 50 }
+        : {}),
+    });
+  };
+
+  const handleSave = () => {
+    const label = presetName.trim();
+    if (!label || !onSavePreset) return;
+    onSavePreset(label, resize);
+    setPresetName('');
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="text-sm font-medium text-gray-700">Resize</legend>
+
+      <div>
+        <label htmlFor={`${idPrefix}-preset`} className="sr-only">
+          Resize preset
+        </label>
+        <select
+          id={`${idPrefix}-preset`}
+          className={inputClassName}
+          value={activePreset?.id ?? ''}
+          disabled={disabled}
+          onChange={(e) => {
+            const preset = presets.find(({ id }) => id === e.target.value);
+            if (preset) onResizeChange(preset.resize);
+          }}
+        >
+          <option value="" disabled>
+            {mode === 'none' ? 'Choose a preset...' : 'Custom'}
+          </option>
+          <optgroup label="Presets">
+            {RESIZE_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.label}
+              </option>
+            ))}
+          </optgroup>
+          {savedPresets.length > 0 && (
+            <optgroup label="Saved">
+              {savedPresets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      <div>
+        <label
+          htmlFor={`${idPrefix}-mode`}
+          className="block text-xs font-medium text-gray-600"
+        >
+          Mode
+        </label>
+        <select
+          id={`${idPrefix}-mode`}
+          className={inputClassName}
+          value={mode}
+          disabled={disabled}
+          onChange={(e) => handleModeChange(e.target.value as ModeChoice)}
+        >
+          {(Object.keys(MODE_LABELS) as ModeChoice[]).map((choice) => (
+            <option key={choice} value={choice}>
+              {MODE_LABELS[choice]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {(mode === 'contain' || mode === 'cover' || mode === 'stretch') && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label
+              htmlFor={`${idPrefix}-width`}
+              className="block text-xs font-medium text-gray-600"
+            >
+              Width (px)
+            </label>
+            <input
+              id={`${idPrefix}-width`}
+              type="number"
+              min={1}
+              className={inputClassName}
+              value={resize.width ?? ''}
+              disabled={disabled}
+              onChange={(e) => update({ width: toPositive(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor={`${idPrefix}-height`}
+              className="block text-xs font-medium text-gray-600"
+            >
+              Height (px)
+            </label>
+            <input
+              id={`${idPrefix}-height`}
+              type="number"
+              min={1}
+              className={inputClassName}
+              value={resize.height ?? ''}
+              disabled={disabled}
+              onChange={(e) => update({ height: toPositive(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {mode === 'long-edge' && (
+        <div>
+          <label
+            htmlFor={`${idPrefix}-long-edge`}
+            className="block text-xs font-medium text-gray-600"
+          >
+            Longest edge (px)
+          </label>
+          <input
+            id={`${idPrefix}-long-edge`}
+            type="number"
+            min={1}
+            className={inputClassName}
+            value={resize.width ?? resize.height ?? ''}
+            disabled={disabled}
+            onChange={(e) =>
+              update({ width: toPositive(e.target.value), height: undefined })
+            }
+          />
+        </div>
+      )}
+
+      {mode === 'scale' && (
+        <div>
+          <label
+            htmlFor={`${idPrefix}-scale`}
+            className="block text-xs font-medium text-gray-600"
+          >
+            Scale (%)
+          </label>
+          <input
+            id={`${idPrefix}-scale`}
+            type="number"
+            min={1}
+            className={inputClassName}
+            value={resize.scalePercent ?? ''}
+            disabled={disabled}
+            onChange={(e) =>
+              update({ scalePercent: toPositive(e.target.value) })
+            }
+          />
+        </div>
+      )}
+
+      {mode === 'cover' && (
+        <div>
+          <label
+            htmlFor={`${idPrefix}-gravity`}
+            className="block text-xs font-medium text-gray-600"
+          >
+            Keep
+          </label>
+          <select
+            id={`${idPrefix}-gravity`}
+            className={inputClassName}
+            value={resize.gravity ?? 'center'}
+            disabled={disabled}
+            onChange={(e) => update({ gravity: e.target.value as CropGravity })}
+          >
+            {(Object.keys(GRAVITY_LABELS) as CropGravity[]).map((gravity) => (
+              <option key={gravity} value={gravity}>
+                {GRAVITY_LABELS[gravity]}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {mode !== 'none' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={resize.neverUpscale ?? false}
+            disabled={disabled}
+            onChange={(e) => update({ neverUpscale: e.target.checked })}
+          />
+          <span>Never upscale smaller images</span>
+        </label>
+      )}
+
+      {onSavePreset && mode !== 'none' && !activePreset && (
+        <div className="flex gap-2">
+          <label htmlFor={`${idPrefix}-preset-name`} className="sr-only">
+            Preset name
+          </label>
+          <input
+            id={`${idPrefix}-preset-name`}
+            type="text"
+            placeholder="Preset name"
+            className="block w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+            value={presetName}
+            disabled={disabled}
+            onChange={(e) => setPresetName(e.target.value)}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={disabled || !presetName.trim()}
+            onClick={handleSave}
+          >
+            Save
+          </Button>
+        </div>
+      )}
+
+      {onDeletePreset && isSavedPreset && activePreset && (
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={disabled}
+          onClick={() => onDeletePreset(activePreset.id)}
+        >
+          Delete preset “{activePreset.label}”
+        </Button>
+      )}
+    </fieldset>
+  );
+};
@@ -1,12 +1,34 @@
 export { FileUploader, type FileUploaderProps } from './FileUploader';
-export {
-  ConversionQueue,
-  type ConversionQueueProps,
-  type ConversionItem,
-} from './ConversionQueue';
+export { ConversionQueue, type ConversionQueueProps } from './ConversionQueue';
 export {
   FilePreview,
   FilePreviewGrid,
   type FilePreviewProps,
   type FilePreviewGridProps,
 } from './FilePreview';
+export {
+  DownloadAllButton,
+  type DownloadAllButtonProps,
+} from './DownloadAllButton';
+export {
+  ConversionSettingsPanel,
+  type ConversionSettingsPanelProps,
+} from './ConversionSettingsPanel';
+export { PdfExportPanel, type PdfExportPanelProps } from './PdfExportPanel';
+export {
+  ComparisonViewer,
+  type ComparisonViewerProps,
+} from './ComparisonViewer';
+export { ResizeControls, type ResizeControlsProps } from './ResizeControls';
+export {
+  FileOverridesEditor,
+  type FileOverridesEditorProps,
+} from './FileOverridesEditor';
+export {
+  OutputFolderPanel,
+  type OutputFolderPanelProps,
+} from './OutputFolderPanel';
+export {
+  FileNameTemplateInput,
+  type FileNameTemplateInputProps,
+} from './FileNameTemplateInput';
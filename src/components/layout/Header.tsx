@@ -9,7 +9,7 @@ export interface HeaderProps {
 
 export const Header: React.FC<HeaderProps> = ({
   title = 'HEIC Converter',
-  subtitle = 'Convert HEIC images to JPEG, PNG, or WebP',
+  subtitle = 'Convert HEIC images to JPEG, PNG, WebP, AVIF, or TIFF',
   className = '',
   children,
 }) => {
@@ -1,77 +1,22 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import {
-  ConversionFile,
-  ConversionProgress,
-  ConversionSettings,
-} from '../types/conversion';
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useConversion } from '../hooks/useConversion';
 
-type ConversionContextType = {
-  files: ConversionFile[];
-  progress: Record<string, ConversionProgress>;
-  settings: ConversionSettings;
-  addFiles: (files: ConversionFile[]) => void;
-  removeFile: (id: string) => void;
-  clearQueue: () => void;
-  updateProgress: (id: string, progress: ConversionProgress) => void;
-  updateSettings: (settings: Partial<ConversionSettings>) => void;
-};
+type ConversionContextType = ReturnType<typeof useConversion>;
 
 const ConversionContext = createContext<ConversionContextType | undefined>(
   undefined
 );
 
+/**
+ * Shares one `useConversion` instance with a component tree. The state
+ * itself lives in the conversion store, so the context and the hook always
+ * see the same queue.
+ */
 export const ConversionProvider = ({ children }: { children: ReactNode }) => {
-  const [files, setFiles] = useState<ConversionFile[]>([]);
-  const [progress, setProgress] = useState<Record<string, ConversionProgress>>(
-    {}
-  );
-  const [settings, setSettings] = useState<ConversionSettings>({
-    outputFormat: 'jpg',
-    quality: 80,
-    resize: {
-      maintainAspectRatio: true,
-    },
-  });
-
-  const addFiles = (newFiles: ConversionFile[]) => {
-    setFiles((prev) => [...prev, ...newFiles]);
-  };
-
-  const removeFile = (id: string) => {
-    setFiles((prev) => prev.filter((f) => f.id !== id));
-    setProgress((prev) => {
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { [id]: _, ...rest } = prev;
-      return rest;
-    });
-  };
-
-  const clearQueue = () => {
-    setFiles([]);
-    setProgress({});
-  };
-
-  const updateProgress = (id: string, prog: ConversionProgress) => {
-    setProgress((prev) => ({ ...prev, [id]: prog }));
-  };
-
-  const updateSettings = (newSettings: Partial<ConversionSettings>) => {
-    setSettings((prev) => ({ ...prev, ...newSettings }));
-  };
+  const conversion = useConversion();
 
   return (
-    <ConversionContext.Provider
-      value={{
-        files,
-        progress,
-        settings,
-        addFiles,
-        removeFile,
-        clearQueue,
-        updateProgress,
-        updateSettings,
-      }}
-    >
+    <ConversionContext.Provider value={conversion}>
       {children}
     </ConversionContext.Provider>
   );
@@ -4,3 +4,6 @@
 // export { useFileUpload } from './useFileUpload'; // TODO: Create useFileUpload
 export * from './useErrorHandler';
 export * from './useConversion';
+export * from './useHeifImages';
+export * from './useFileThumbnail';
+export * from './useOriginalImage';
@@ -1,126 +1,451 @@
-import { useCallback } from 'react';
-import { useConversionStore } from '../store';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ConversionWorkerPool,
+  getAuxiliaryFileName,
+  getDefaultConcurrency,
+  getRetryDelay,
+  isCancellationError,
+  isTransientError,
+  renderFileNameTemplate,
+  resolveFileSettings,
+  toConversionError,
+  toConversionResult,
+  toFileProgress,
+  usesCaptureDetails,
+  waitForRetry,
+  withFileName,
+  settingsToOptions,
+} from '../lib/conversion';
+import { RETRY_POLICY } from '../lib/constants';
+import {
+  ConflictPolicy,
+  ensureWritePermission,
+  isDirectoryOutputSupported,
+  pickOutputDirectory,
+  SavedFile,
+  saveToDirectory,
+} from '../lib/file-system';
+import { Logger } from '../lib/logger';
+import { readCaptureDate, readCaptureDetails } from '../lib/metadata';
+import {
+  createPdfBlob,
+  PdfImage,
+  PdfLayoutOptions,
+  PdfProgress,
+  toPdfImage,
+} from '../lib/pdf';
+import { downloadBlob } from '../lib/utils';
+import {
+  createZipBlob,
+  getUniqueFileName,
+  getUniqueFileNames,
+  ZipProgress,
+} from '../lib/zip';
+import {
+  createAbortSignal,
+  releaseAbortSignal,
+  useConversionStore,
+} from '../store';
+import { startQueuePersistence } from '../store/persistence';
 import { ConversionFile, ConversionResult } from '../types/conversion';
 
+let conversionPool: ConversionWorkerPool | null = null;
+let hasDetectedConcurrency = false;
+
+// One pool per tab, shared by every component using the hook
+const getConversionPool = (): ConversionWorkerPool => {
+  conversionPool ??= new ConversionWorkerPool();
+  return conversionPool;
+};
+
+// Names held by the queue's other results, lower-cased for comparison
+const getTakenFileNames = (exceptId: string): Set<string> =>
+  new Set(
+    Object.values(useConversionStore.getState().results)
+      .filter((result) => result.id !== exceptId)
+      .map((result) => result.fileName.toLowerCase())
+  );
+
+// Keeps React re-renders reasonable while large archives stream
+const ARCHIVE_PROGRESS_INTERVAL_MS = 100;
+
+// Writes go one at a time so that renames can't pick the same free name,
+// and a result queued twice sees that the first write already happened
+let directoryWrites: Promise<unknown> = Promise.resolve();
+
+/**
+ * Writes the result with `id` and its companion files into `directory`.
+ * Companions follow the image: renamed alongside it, and skipped when it is
+ * skipped. Resolves to null when the result is gone or already in the
+ * folder, which results remember across reloads so that "Download all"
+ * doesn't save numbered copies of them.
+ */
+const saveResultToDirectory = (
+  directory: FileSystemDirectoryHandle,
+  id: string,
+  policy: ConflictPolicy
+): Promise<SavedFile | null> => {
+  const task = directoryWrites.then(async () => {
+    const result = useConversionStore.getState().results[id];
+    if (!result) return null;
+    if (result.savedTo && (await result.savedTo.isSameEntry(directory))) {
+      return null;
+    }
+
+    const image = await saveToDirectory(
+      directory,
+      result.fileName,
+      result.convertedBlob,
+      policy
+    );
+    if (image.status === 'written') {
+      for (const { kind, blob } of result.auxiliaryFiles ?? []) {
+        await saveToDirectory(
+          directory,
+          getAuxiliaryFileName(image.fileName, kind, blob.type),
+          blob,
+          policy
+        );
+      }
+    }
+
+    useConversionStore.getState().markResultSaved(id, directory);
+    return image;
+  });
+  directoryWrites = task.catch(() => undefined);
+  return task;
+};
+
+/** The chosen folder if we may still write to it, forgetting it otherwise */
+const getWritableOutputDirectory =
+  async (): Promise<FileSystemDirectoryHandle | null> => {
+    const { outputDirectory, setOutputDirectory } =
+      useConversionStore.getState();
+    if (!outputDirectory) return null;
+
+    try {
+      if (await ensureWritePermission(outputDirectory)) return outputDirectory;
+    } catch (error) {
+      Logger.warn('Could not check access to the output folder', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Falls back to downloads rather than converting into nowhere
+    Logger.warn('Lost access to the output folder', {
+      folder: outputDirectory.name,
+    });
+    setOutputDirectory(null);
+    return null;
+  };
+
 export const useConversion = () => {
   const {
     files,
     progress,
+    results: storedResults,
     settings,
+    resizePresets,
     isConverting,
+    concurrency,
+    outputDirectory,
     addFiles,
     removeFile,
+    expandFile,
     clearQueue,
     updateProgress,
+    setResult,
     updateSettings,
+    setFileOverrides,
+    saveResizePreset,
+    deleteResizePreset,
     setIsConverting,
     updateFileStatus,
+    setConcurrency,
+    setOutputDirectory,
+    cancelFile,
+    cancelAll,
+    pauseFile,
+    pauseAll,
+    resumeFile: resumeStoredFile,
+    resumeAll: resumeStoredFiles,
+    retryFile: resetFileForRetry,
+    recordAttempt,
+    recordError,
   } = useConversionStore();
+  const [archiveProgress, setArchiveProgress] = useState<ZipProgress | null>(
+    null
+  );
+  const [pdfProgress, setPdfProgress] = useState<PdfProgress | null>(null);
+  // Only known in the browser, so it starts false to match the server render
+  const [canSaveToDirectory, setCanSaveToDirectory] = useState(false);
 
-  const convertFiles = useCallback(async (): Promise<ConversionResult[]> => {
-    if (files.length === 0 || isConverting) return [];
+  // Brings back the queue from before a reload; idempotent across the tab
+  useEffect(() => {
+    void startQueuePersistence();
+  }, []);
 
-    setIsConverting(true);
-    const results: ConversionResult[] = [];
+  useEffect(() => {
+    setCanSaveToDirectory(isDirectoryOutputSupported());
+  }, []);
+
+  // Once per tab, so a concurrency the user picked isn't reset on remount
+  useEffect(() => {
+    if (hasDetectedConcurrency) return;
+    hasDetectedConcurrency = true;
+    setConcurrency(getDefaultConcurrency());
+  }, [setConcurrency]);
 
+  const chooseOutputDirectory = useCallback(async () => {
     try {
-      for (const file of files) {
-        if (file.status !== 'pending') continue;
+      const directory = await pickOutputDirectory();
+      if (directory) setOutputDirectory(directory);
+    } catch (error) {
+      Logger.warn('Could not open the folder picker', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, [setOutputDirectory]);
+
+  const clearOutputDirectory = useCallback(
+    () => setOutputDirectory(null),
+    [setOutputDirectory]
+  );
+
+  // A failed save leaves the file converted, ready to download instead
+  const saveToOutputDirectory = useCallback(
+    async (result: ConversionResult) => {
+      const { outputDirectory: directory, settings: currentSettings } =
+        useConversionStore.getState();
+      if (!directory) return;
+
+      try {
+        const saved = await saveResultToDirectory(
+          directory,
+          result.id,
+          currentSettings.conflictPolicy ?? 'rename'
+        );
+        if (!saved) return;
 
-        updateFileStatus(file.id, 'converting');
+        updateProgress(result.id, {
+          percentage: 100,
+          stage: 'completed',
+          message:
+            saved.status === 'written'
+              ? `Saved to ${directory.name} as ${saved.fileName}`
+              : `Already in ${directory.name}, not saved`,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        Logger.warn('Could not save to the output folder', {
+          fileName: result.fileName,
+          error: message,
+        });
+        updateProgress(result.id, {
+          percentage: 100,
+          stage: 'completed',
+          message: 'Conversion completed',
+          error: `Not saved to ${directory.name}: ${message}`,
+        });
+      }
+    },
+    [updateProgress]
+  );
+
+  const convertFile = useCallback(
+    async (
+      pool: ConversionWorkerPool,
+      file: ConversionFile
+    ): Promise<ConversionResult | null> => {
+      const signal = createAbortSignal(file.id);
+
+      updateFileStatus(file.id, 'converting');
+      updateProgress(file.id, {
+        percentage: 0,
+        stage: 'processing',
+        message: 'Waiting for a free worker...',
+      });
+
+      try {
+        for (let retry = 0; ; retry++) {
+          recordAttempt(file.id);
+
+          try {
+            const converted = await convertSingleFile(pool, file, signal);
+            // A cancel or pause during the last await already moved the file
+            // on; its result would overwrite that
+            const current = useConversionStore
+              .getState()
+              .files.find((queued) => queued.id === file.id);
+            if (current?.status !== 'converting') {
+              URL.revokeObjectURL(converted.downloadUrl);
+              return null;
+            }
+
+            // Numbered in the same tick it joins the results, so files
+            // finishing together can't both claim a name
+            const result = withFileName(
+              converted,
+              getUniqueFileName(converted.fileName, getTakenFileNames(file.id))
+            );
+
+            setResult(file.id, result);
+            updateFileStatus(file.id, 'completed');
+            updateProgress(file.id, {
+              percentage: 100,
+              stage: 'completed',
+              message: 'Conversion completed',
+            });
+            await saveToOutputDirectory(result);
+
+            return result;
+          } catch (error) {
+            const conversionError = toConversionError(error);
+            // Cancel and pause already moved the file to its new status
+            if (conversionError.code === 'CANCELLED') return null;
+
+            recordError(file.id, conversionError.code);
+
+            if (
+              !isTransientError(conversionError.code) ||
+              retry >= RETRY_POLICY.MAX_AUTO_RETRIES
+            ) {
+              throw conversionError;
+            }
+
+            const delay = getRetryDelay(retry);
+            updateProgress(file.id, {
+              percentage: 0,
+              stage: 'processing',
+              message: `Retrying in ${Math.ceil(delay / 1000)}s (attempt ${retry + 2} of ${RETRY_POLICY.MAX_AUTO_RETRIES + 1})...`,
+              error: conversionError.message,
+            });
+            await waitForRetry(delay, signal);
+          }
+        }
+      } catch (error) {
+        if (isCancellationError(error)) return null;
+
+        updateFileStatus(file.id, 'error');
         updateProgress(file.id, {
           percentage: 0,
-          stage: 'processing',
-          message: 'Starting conversion...',
+          stage: 'completed',
+          error: error instanceof Error ? error.message : 'Conversion failed',
         });
+        return null;
+      } finally {
+        releaseAbortSignal(file.id);
+      }
+    },
+    [
+      settings,
+      updateFileStatus,
+      updateProgress,
+      setResult,
+      recordAttempt,
+      recordError,
+      saveToOutputDirectory,
+    ]
+  );
 
-        try {
-          // Simulate conversion process
-          const result = await convertSingleFile(file);
+  const convertFiles = useCallback(async (): Promise<ConversionResult[]> => {
+    const { files: queued, isConverting: isRunning } =
+      useConversionStore.getState();
+    if (queued.length === 0 || isRunning) return [];
 
-          updateFileStatus(file.id, 'completed');
-          updateProgress(file.id, {
-            percentage: 100,
-            stage: 'completed',
-            message: 'Conversion completed',
-          });
+    setIsConverting(true);
+    const results: ConversionResult[] = [];
+    // Asks again for access now, while the click that started this counts
+    await getWritableOutputDirectory();
+    const inFlight = new Map<string, Promise<void>>();
+
+    try {
+      const pool = getConversionPool();
+      pool.setConcurrency(concurrency);
 
-          results.push(result);
-        } catch (error) {
-          updateFileStatus(file.id, 'error');
-          updateProgress(file.id, {
-            percentage: 0,
-            stage: 'completed',
-            error: error instanceof Error ? error.message : 'Conversion failed',
+      // Re-read the store each round so resumed files join the running batch.
+      // Paused files don't hold it open; resuming them starts a new one.
+      for (;;) {
+        const { files: currentFiles } = useConversionStore.getState();
+
+        currentFiles
+          .filter((file) => file.status === 'pending' && !inFlight.has(file.id))
+          .forEach((file) => {
+            const task = convertFile(pool, file).then((result) => {
+              if (result) results.push(result);
+              inFlight.delete(file.id);
+            });
+            inFlight.set(file.id, task);
           });
-        }
+
+        if (inFlight.size === 0) break;
+        await Promise.race(inFlight.values());
       }
     } finally {
       setIsConverting(false);
     }
 
     return results;
-  }, [
-    files,
-    isConverting,
-    settings,
-    setIsConverting,
-    updateFileStatus,
-    updateProgress,
-  ]);
+  }, [concurrency, convertFile, setIsConverting]);
+
+  // Joins the running batch, or starts a new one if the queue is idle
+  const resumeFile = useCallback(
+    (id: string) => {
+      resumeStoredFile(id);
+      void convertFiles();
+    },
+    [resumeStoredFile, convertFiles]
+  );
+
+  const resumeAll = useCallback(() => {
+    resumeStoredFiles();
+    void convertFiles();
+  }, [resumeStoredFiles, convertFiles]);
+
+  const retryFile = useCallback(
+    (id: string) => {
+      resetFileForRetry(id);
+      // Joins the running batch, or starts a new one if the queue is idle
+      void convertFiles();
+    },
+    [resetFileForRetry, convertFiles]
+  );
 
   const convertSingleFile = async (
-    file: ConversionFile
+    pool: ConversionWorkerPool,
+    file: ConversionFile,
+    signal: AbortSignal
   ): Promise<ConversionResult> => {
-    // This is a placeholder for the actual conversion logic
-    // In a real implementation, this would use a library like heic2any or a server-side API
-
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        // Mock conversion - in reality, you'd use HEIC conversion libraries
-        try {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          const img = new Image();
-
-          img.onload = () => {
-            canvas.width = img.width;
-            canvas.height = img.height;
-
-            if (ctx) {
-              ctx.drawImage(img, 0, 0);
-              canvas.toBlob(
-                (blob) => {
-                  if (blob) {
-                    const downloadUrl = URL.createObjectURL(blob);
-                    const fileName = `${file.name.replace(/\.[^/.]+$/, '')}.${settings.outputFormat}`;
-
-                    resolve({
-                      id: file.id,
-                      originalFile: file,
-                      convertedBlob: blob,
-                      downloadUrl,
-                      fileName,
-                    });
-                  } else {
-                    reject(new Error('Failed to create blob'));
-                  }
-                },
-                `image/${settings.outputFormat}`,
-                settings.quality / 100
-              );
-            } else {
-              reject(new Error('Failed to get canvas context'));
-            }
-          };
+    const fileSettings = resolveFileSettings(settings, file.overrides);
+    const converted = await pool.convert(
+      file.file,
+      { ...settingsToOptions(fileSettings), itemId: file.image?.itemId },
+      (phaseProgress) => updateProgress(file.id, toFileProgress(phaseProgress)),
+      signal
+    );
 
-          img.onerror = () => reject(new Error('Failed to load image'));
-          img.src = URL.createObjectURL(file.file);
-        } catch (error) {
-          reject(error);
-        }
-      }, 1000); // Simulate processing time
+    const template = fileSettings.fileNameTemplate?.trim();
+    if (!template) return toConversionResult(file, converted);
+
+    const { date, camera } = usesCaptureDetails(template)
+      ? await readCaptureDetails(file.file, file.image?.itemId)
+      : { date: null, camera: null };
+    const fileName = renderFileNameTemplate(template, {
+      originalName: file.name,
+      index:
+        useConversionStore
+          .getState()
+          .files.findIndex((queued) => queued.id === file.id) + 1,
+      imageIndex: file.image?.index,
+      date: date ?? new Date(file.file.lastModified),
+      camera,
+      width: converted.width,
+      height: converted.height,
+      format: converted.format,
+      quality: converted.quality,
     });
+
+    return toConversionResult(file, converted, fileName);
   };
 
   const downloadFile = useCallback((result: ConversionResult) => {
@@ -132,31 +457,186 @@ export const useConversion = () => {
     document.body.removeChild(link);
   }, []);
 
+  const downloadAuxiliaryFile = useCallback(
+    (result: ConversionResult, fileName: string) => {
+      const auxiliary = result.auxiliaryFiles?.find(
+        (file) => file.fileName === fileName
+      );
+      if (!auxiliary) return;
+
+      const url = URL.createObjectURL(auxiliary.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = auxiliary.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    []
+  );
+
   const downloadAll = useCallback(async () => {
-    const results = await convertFiles();
-    results.forEach(downloadFile);
-  }, [convertFiles, downloadFile]);
+    await convertFiles();
+
+    const { files: currentFiles, results } = useConversionStore.getState();
+    const completed = currentFiles
+      .map((file) => results[file.id])
+      .filter((result): result is ConversionResult => !!result);
+
+    if (completed.length === 0) return;
+
+    // Anything not written as it finished (converted before the folder was
+    // chosen, or restored after a reload) goes there now instead of a ZIP
+    if (await getWritableOutputDirectory()) {
+      for (const result of completed) {
+        await saveToOutputDirectory(result);
+      }
+      return;
+    }
+
+    const files = completed.flatMap((result) => [
+      { name: result.fileName, data: result.convertedBlob },
+      ...(result.auxiliaryFiles ?? []).map(({ fileName, blob }) => ({
+        name: fileName,
+        data: blob,
+      })),
+    ]);
+    if (files.length === 1) {
+      downloadFile(completed[0]);
+      return;
+    }
+
+    // Browsers block repeated programmatic downloads, so bundle everything
+    const names = getUniqueFileNames(files.map((file) => file.name));
+    let lastUpdate = 0;
+
+    try {
+      const archive = await createZipBlob(
+        files.map((file, index) => ({ name: names[index], data: file.data })),
+        {
+          onProgress: (zipProgress) => {
+            const now = Date.now();
+            if (
+              now - lastUpdate >= ARCHIVE_PROGRESS_INTERVAL_MS ||
+              zipProgress.currentFile === null
+            ) {
+              lastUpdate = now;
+              setArchiveProgress(zipProgress);
+            }
+          },
+        }
+      );
+
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(archive, `converted-images-${date}.zip`);
+    } finally {
+      setArchiveProgress(null);
+    }
+  }, [convertFiles, downloadFile, saveToOutputDirectory]);
+
+  const exportPdf = useCallback(
+    async (layout: PdfLayoutOptions) => {
+      await convertFiles();
+
+      const { files: currentFiles, results } = useConversionStore.getState();
+      const completed = currentFiles
+        .map((file) => results[file.id])
+        .filter((result): result is ConversionResult => !!result);
+
+      if (completed.length === 0) return;
+
+      const getCaption = async (
+        result: ConversionResult
+      ): Promise<string | undefined> => {
+        const { originalFile } = result;
+        if (layout.caption === 'filename') return originalFile.name;
+        if (layout.caption !== 'date') return undefined;
+
+        const date = await readCaptureDate(
+          originalFile.file,
+          originalFile.image?.itemId
+        );
+        return date?.toLocaleString(undefined, {
+          dateStyle: 'medium',
+          timeStyle: 'short',
+        });
+      };
+
+      // Preparing images (re-encoding non-JPEGs) is the slow half of the job
+      const totalImages = completed.length * 2;
+      setPdfProgress({ imagesWritten: 0, totalImages });
+
+      try {
+        const images: PdfImage[] = [];
+        for (const result of completed) {
+          images.push(
+            await toPdfImage(result.convertedBlob, await getCaption(result))
+          );
+          setPdfProgress({ imagesWritten: images.length, totalImages });
+        }
+
+        const pdf = await createPdfBlob(images, layout, {
+          onProgress: ({ imagesWritten }) =>
+            setPdfProgress({
+              imagesWritten: completed.length + imagesWritten,
+              totalImages,
+            }),
+        });
+
+        const date = new Date().toISOString().slice(0, 10);
+        downloadBlob(pdf, `converted-images-${date}.pdf`);
+      } finally {
+        setPdfProgress(null);
+      }
+    },
+    [convertFiles]
+  );
 
   return {
     // State
     files,
     progress,
+    results: storedResults,
     settings,
+    resizePresets,
     isConverting,
+    concurrency,
+    archiveProgress,
+    pdfProgress,
+    outputDirectory,
+    canSaveToDirectory,
 
     // Actions
     addFiles,
     removeFile,
+    expandFile,
     clearQueue,
     updateSettings,
+    setFileOverrides,
+    saveResizePreset,
+    deleteResizePreset,
+    setConcurrency,
+    chooseOutputDirectory,
+    clearOutputDirectory,
     convertFiles,
+    cancelFile,
+    cancelAll,
+    pauseFile,
+    pauseAll,
+    resumeFile,
+    resumeAll,
+    retryFile,
     downloadFile,
+    downloadAuxiliaryFile,
     downloadAll,
+    exportPdf,
 
     // Computed
     hasFiles: files.length > 0,
     completedFiles: files.filter((f) => f.status === 'completed'),
     pendingFiles: files.filter((f) => f.status === 'pending'),
     errorFiles: files.filter((f) => f.status === 'error'),
+    pausedFiles: files.filter((f) => f.status === 'paused'),
   };
 };
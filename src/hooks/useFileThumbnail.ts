@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { ConversionWorkerPool } from '../lib/conversion';
+import { Logger } from '../lib/logger';
+import { isHeicFile } from '../lib/utils';
+
+export interface UseFileThumbnailReturn {
+  thumbnailUrl: string | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Longest side of HEIC previews; Apple's embedded thumbnails are 320-416px
+const THUMBNAIL_SIZE = 320;
+
+interface CachedThumbnail {
+  url: Promise<string>;
+  /** Components showing it; the URL is revoked when the last one goes */
+  users: number;
+}
+
+// Shared per File so the queue, previews and grids decode it only once
+const thumbnailCache = new Map<File, CachedThumbnail>();
+
+// Kept apart from the conversion pool so previews never wait behind a batch
+let thumbnailPool: ConversionWorkerPool | null = null;
+
+function createHeicThumbnail(file: File): Promise<string> {
+  thumbnailPool ??= new ConversionWorkerPool({ concurrency: 1 });
+  return thumbnailPool
+    .convert(file, {
+      format: 'jpeg',
+      quality: 80,
+      width: THUMBNAIL_SIZE,
+      height: THUMBNAIL_SIZE,
+      maintainAspectRatio: true,
+      metadata: 'strip',
+      colorManagement: 'srgb',
+      preferEmbeddedThumbnail: true,
+    })
+    .then((result) => result.url);
+}
+
+/**
+ * Browsers can't display HEIC, so those are previewed from the embedded
+ * thumbnail (or a downscaled decode) in a worker. Other images are shown
+ * as they are.
+ */
+function acquireThumbnail(file: File): Promise<string> {
+  let thumbnail = thumbnailCache.get(file);
+  if (!thumbnail) {
+    const url = isHeicFile(file)
+      ? createHeicThumbnail(file)
+      : Promise.resolve(URL.createObjectURL(file));
+    thumbnail = { url, users: 0 };
+    thumbnailCache.set(file, thumbnail);
+
+    // A failed attempt shouldn't stick; the next render may retry
+    const entry = thumbnail;
+    url.catch(() => {
+      if (thumbnailCache.get(file) === entry) thumbnailCache.delete(file);
+    });
+  }
+  thumbnail.users++;
+  return thumbnail.url;
+}
+
+/**
+ * Revokes the preview once nothing shows it. Deferred a tick so that a
+ * component remounting straight away (Strict Mode, a list re-keying) keeps
+ * it instead of decoding again.
+ */
+function releaseThumbnail(file: File): void {
+  const thumbnail = thumbnailCache.get(file);
+  if (!thumbnail) return;
+  thumbnail.users--;
+
+  setTimeout(() => {
+    if (thumbnail.users > 0 || thumbnailCache.get(file) !== thumbnail) return;
+    thumbnailCache.delete(file);
+    thumbnail.url.then(
+      (url) => URL.revokeObjectURL(url),
+      () => undefined
+    );
+  }, 0);
+}
+
+/**
+ * Preview URL for an image file, decoded once per File and shared by every
+ * component showing it, then revoked when the last of them unmounts.
+ * Non-image files, and callers passing `enabled: false`, get no thumbnail.
+ */
+export function useFileThumbnail(
+  file: File,
+  enabled = true
+): UseFileThumbnailReturn {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setThumbnailUrl(null);
+    setError(null);
+    if (!enabled || (!isHeicFile(file) && !file.type.startsWith('image/'))) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    acquireThumbnail(file)
+      .then((url) => {
+        if (!cancelled) setThumbnailUrl(url);
+      })
+      .catch((reason) => {
+        Logger.warn('Could not create file preview', {
+          fileName: file.name,
+          error: reason instanceof Error ? reason.message : String(reason),
+        });
+        if (!cancelled) setError('Failed to load preview');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      releaseThumbnail(file);
+    };
+  }, [file, enabled]);
+
+  return { thumbnailUrl, isLoading, error };
+}
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { HeifImageInfo, LibheifDecoder } from '../lib/conversion';
+import { Logger } from '../lib/logger';
+import { isHeicFile } from '../lib/utils';
+
+export interface UseHeifImagesReturn {
+  images: HeifImageInfo[];
+  isLoading: boolean;
+}
+
+// Listing only parses container boxes, so one decoder serves every caller
+const imageLister = new LibheifDecoder();
+
+/**
+ * Enumerates the top-level images of a HEIC file. Non-HEIC files, and
+ * callers passing `enabled: false`, get an empty list.
+ */
+export function useHeifImages(file: File, enabled = true): UseHeifImagesReturn {
+  const [images, setImages] = useState<HeifImageInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !isHeicFile(file)) {
+      setImages([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    imageLister
+      .listImages(file)
+      .then((list) => {
+        if (!cancelled) setImages(list);
+      })
+      .catch((error) => {
+        Logger.warn('Could not list HEIC images', {
+          fileName: file.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (!cancelled) setImages([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, enabled]);
+
+  return { images, isLoading };
+}
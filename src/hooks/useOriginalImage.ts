@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { ConversionWorkerPool, toConversionError } from '../lib/conversion';
+import { isHeicFile } from '../lib/utils';
+import { ConversionFile } from '../types/conversion';
+
+export interface UseOriginalImageReturn {
+  url: string | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Full-size decodes are occasional and heavy; one worker is plenty
+let decodePool: ConversionWorkerPool | null = null;
+
+/**
+ * Full-resolution, lossless rendering of a queued file, for comparing
+ * against its converted output. HEIC files are decoded to PNG in a worker,
+ * keeping the source colour profile; anything else is shown as is. The URL
+ * is revoked when the file changes or the caller unmounts.
+ */
+export function useOriginalImage(
+  file: ConversionFile | null
+): UseOriginalImageReturn {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setError(null);
+    if (!file) return;
+
+    const controller = new AbortController();
+    let objectUrl: string | null = null;
+    setIsLoading(true);
+
+    const decoded = isHeicFile(file.file)
+      ? (decodePool ??= new ConversionWorkerPool({ concurrency: 1 }))
+          .convert(
+            file.file,
+            {
+              format: 'png',
+              metadata: 'strip',
+              colorManagement: 'embed',
+              itemId: file.image?.itemId,
+            },
+            undefined,
+            controller.signal
+          )
+          .then((result) => result.url)
+      : Promise.resolve(URL.createObjectURL(file.file));
+
+    decoded
+      .then((decodedUrl) => {
+        if (controller.signal.aborted) {
+          URL.revokeObjectURL(decodedUrl);
+          return;
+        }
+        objectUrl = decodedUrl;
+        setUrl(decodedUrl);
+      })
+      .catch((reason) => {
+        if (!controller.signal.aborted)
+          setError(toConversionError(reason).message);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file]);
+
+  return { url, isLoading, error };
+}
@@ -1,16 +1,39 @@
+import type { ResizePreset } from '../../types/conversion';
+
 export const SUPPORTED_INPUT_FORMATS = ['.heic', '.heif'] as const;
 
 export const SUPPORTED_OUTPUT_FORMATS = [
   { value: 'jpeg', label: 'JPEG', extension: '.jpg' },
   { value: 'png', label: 'PNG', extension: '.png' },
   { value: 'webp', label: 'WebP', extension: '.webp' },
+  { value: 'avif', label: 'AVIF', extension: '.avif' },
+  { value: 'tiff', label: 'TIFF', extension: '.tiff' },
+] as const;
+
+export const RESAMPLING_FILTERS = [
+  { value: 'lanczos3', label: 'Lanczos3 (sharpest)' },
+  { value: 'area', label: 'Area average' },
+  { value: 'bilinear', label: 'Bilinear' },
+  { value: 'nearest', label: 'Nearest neighbour' },
 ] as const;
 
+export const DEFAULT_PDF_OPTIONS = {
+  pageSize: 'a4' as const,
+  orientation: 'portrait' as const,
+  marginMm: 10,
+  fit: 'fit' as const,
+  imagesPerPage: 1 as const,
+  caption: 'none' as const,
+};
+
 export const DEFAULT_CONVERSION_OPTIONS = {
   format: 'jpeg' as const,
   quality: 85,
   maintainAspectRatio: true,
   backgroundColor: '#ffffff',
+  metadata: 'keep' as const,
+  colorManagement: 'embed' as const,
+  gainMap: 'ignore' as const,
 };
 
 export const FILE_SIZE_LIMITS = {
@@ -19,6 +42,12 @@ export const FILE_SIZE_LIMITS = {
   MAX_FILES_COUNT: 50,
 } as const;
 
+// Defaults for the queue kept in IndexedDB across reloads
+export const PERSISTENCE_LIMITS = {
+  MAX_RESULT_AGE_MS: 7 * 24 * 60 * 60 * 1000, // A week
+  STORAGE_BUDGET_BYTES: 500 * 1024 * 1024, // 500MB of converted results
+} as const;
+
 export const CONVERSION_PHASES = {
   READING: 'reading',
   DECODING: 'decoding',
@@ -30,19 +59,45 @@ export const CONVERSION_PHASES = {
 export const ERROR_CODES = {
   UNSUPPORTED_FORMAT: 'UNSUPPORTED_FORMAT',
   CONVERSION_FAILED: 'CONVERSION_FAILED',
+  WORKER_CRASHED: 'WORKER_CRASHED',
+  OUT_OF_MEMORY: 'OUT_OF_MEMORY',
+  SIZE_LIMIT_UNREACHABLE: 'SIZE_LIMIT_UNREACHABLE',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
   INVALID_OPTIONS: 'INVALID_OPTIONS',
   NETWORK_ERROR: 'NETWORK_ERROR',
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
+
+// Errors worth retrying automatically; the rest fail the same way every
+// time, such as a corrupt file reported as CONVERSION_FAILED
+export const TRANSIENT_ERROR_CODES: readonly ErrorCode[] = [
+  ERROR_CODES.WORKER_CRASHED,
+  ERROR_CODES.OUT_OF_MEMORY,
+  ERROR_CODES.NETWORK_ERROR,
+  ERROR_CODES.QUOTA_EXCEEDED,
+];
+
+export const RETRY_POLICY = {
+  MAX_AUTO_RETRIES: 2,
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 30000,
 } as const;
 
 export const ERROR_MESSAGES = {
   [ERROR_CODES.UNSUPPORTED_FORMAT]: 'The file format is not supported',
   [ERROR_CODES.CONVERSION_FAILED]: 'Failed to convert the image',
+  [ERROR_CODES.WORKER_CRASHED]: 'The conversion worker stopped unexpectedly',
+  [ERROR_CODES.OUT_OF_MEMORY]: 'Ran out of memory while converting the image',
+  [ERROR_CODES.SIZE_LIMIT_UNREACHABLE]:
+    'The image could not be made small enough for the maximum file size',
   [ERROR_CODES.FILE_TOO_LARGE]: 'File size exceeds the maximum limit',
   [ERROR_CODES.INVALID_OPTIONS]: 'Invalid conversion options provided',
   [ERROR_CODES.NETWORK_ERROR]: 'Network error occurred during conversion',
   [ERROR_CODES.QUOTA_EXCEEDED]: 'Conversion quota exceeded',
+  [ERROR_CODES.CANCELLED]: 'Conversion was cancelled',
 } as const;
 
 export const MIME_TYPES = {
@@ -52,11 +107,66 @@ export const MIME_TYPES = {
   jpg: 'image/jpeg',
   png: 'image/png',
   webp: 'image/webp',
+  avif: 'image/avif',
+  tiff: 'image/tiff',
+  pdf: 'application/pdf',
 } as const;
 
+// AVIF holds up at much lower quality values than JPEG or WebP
 export const QUALITY_PRESETS = {
-  low: { jpeg: 60, webp: 50 },
-  medium: { jpeg: 80, webp: 75 },
-  high: { jpeg: 90, webp: 85 },
-  maximum: { jpeg: 95, webp: 90 },
+  low: { jpeg: 60, webp: 50, avif: 35 },
+  medium: { jpeg: 80, webp: 75, avif: 50 },
+  high: { jpeg: 90, webp: 85, avif: 65 },
+  maximum: { jpeg: 95, webp: 90, avif: 80 },
 } as const;
+
+// Common destinations; users can save their own next to these
+export const RESIZE_PRESETS: readonly ResizePreset[] = [
+  {
+    id: 'instagram-square',
+    label: 'Instagram 1080 (square)',
+    resize: {
+      mode: 'cover',
+      width: 1080,
+      height: 1080,
+      gravity: 'center',
+      maintainAspectRatio: true,
+    },
+  },
+  {
+    id: 'instagram-portrait',
+    label: 'Instagram 1080 (portrait 4:5)',
+    resize: {
+      mode: 'cover',
+      width: 1080,
+      height: 1350,
+      gravity: 'center',
+      maintainAspectRatio: true,
+    },
+  },
+  {
+    id: 'email-1600',
+    label: 'Email 1600px',
+    resize: {
+      mode: 'long-edge',
+      width: 1600,
+      neverUpscale: true,
+      maintainAspectRatio: true,
+    },
+  },
+  {
+    id: 'web-2048',
+    label: 'Web 2048px',
+    resize: {
+      mode: 'long-edge',
+      width: 2048,
+      neverUpscale: true,
+      maintainAspectRatio: true,
+    },
+  },
+  {
+    id: 'half-size',
+    label: 'Half size (50%)',
+    resize: { mode: 'scale', scalePercent: 50, maintainAspectRatio: true },
+  },
+];
@@ -0,0 +1,92 @@
+import {
+  ConversionFile,
+  ConversionProgress,
+  ConversionResult,
+  ConversionSettings,
+} from '../../types/conversion';
+import { getAuxiliaryFileName, getOutputFileName } from './options';
+import { ConvertedImage, PhaseProgress } from './types';
+
+// Decoding takes the first half of the bar, processing and encoding the rest
+const PHASE_RANGES: Record<PhaseProgress['phase'], [number, number]> = {
+  reading: [0, 10],
+  decoding: [10, 50],
+  processing: [50, 70],
+  encoding: [70, 99],
+  complete: [100, 100],
+};
+
+/** Engine progress within a phase as the file's overall progress */
+export function toFileProgress({
+  phase,
+  progress,
+  message,
+}: PhaseProgress): ConversionProgress {
+  const [start, end] = PHASE_RANGES[phase];
+  return {
+    percentage: Math.round(start + ((end - start) * progress) / 100),
+    stage: 'processing',
+    message,
+  };
+}
+
+/**
+ * A finished engine run as the queue's result for `file`, named after the
+ * original unless a templated `fileName` is given
+ */
+export function toConversionResult(
+  file: ConversionFile,
+  converted: ConvertedImage,
+  fileName = getOutputFileName(file.name, converted.format, file.image?.index)
+): ConversionResult {
+  return {
+    id: file.id,
+    originalFile: file,
+    convertedBlob: converted.blob,
+    downloadUrl: converted.url,
+    fileName,
+    format: converted.format,
+    width: converted.width,
+    height: converted.height,
+    quality: converted.quality,
+    sourceRegion: converted.sourceRegion,
+    auxiliaryFiles: converted.auxiliary?.map(({ kind, blob }) => ({
+      kind,
+      fileName: getAuxiliaryFileName(fileName, kind, blob.type),
+      blob,
+    })),
+  };
+}
+
+/** `result` under another name, its companion files following it */
+export function withFileName(
+  result: ConversionResult,
+  fileName: string
+): ConversionResult {
+  if (fileName === result.fileName) return result;
+
+  return {
+    ...result,
+    fileName,
+    auxiliaryFiles: result.auxiliaryFiles?.map((auxiliary) => ({
+      ...auxiliary,
+      fileName: getAuxiliaryFileName(
+        fileName,
+        auxiliary.kind,
+        auxiliary.blob.type
+      ),
+    })),
+  };
+}
+
+/**
+ * Settings saved while `outputFormat` held the file extension ('jpg')
+ * rather than the format, as read back from storage
+ */
+export function normalizeSettings<
+  T extends Partial<Pick<ConversionSettings, 'outputFormat'>>,
+>(settings: T): T {
+  return (settings.outputFormat as string) === 'jpg'
+    ? { ...settings, outputFormat: 'jpeg' }
+    : settings;
+}
@@ -0,0 +1,53 @@
+import { MIME_TYPES } from '../constants';
+import { Logger } from '../logger';
+import { createConversionError } from './errors';
+
+type AvifEncode = typeof import('@jsquash/avif/encode').default;
+
+// libavif's speed scale runs 0 (slowest) to 10; 6 is its balanced default
+const AVIF_ENCODER_SPEED = 6;
+
+let encoderPromise: Promise<AvifEncode> | null = null;
+
+function loadAvifEncoder(): Promise<AvifEncode> {
+  if (!encoderPromise) {
+    encoderPromise = import('@jsquash/avif/encode')
+      .then((module) => module.default)
+      .catch((error) => {
+        encoderPromise = null;
+        throw error;
+      });
+  }
+  return encoderPromise;
+}
+
+/**
+ * Encodes AVIF with libavif compiled to WebAssembly. Few browsers can encode
+ * AVIF through canvas, so this never relies on `toBlob`.
+ */
+export async function encodeAvif(
+  imageData: ImageData,
+  quality: number
+): Promise<Blob> {
+  let encode: AvifEncode;
+  try {
+    encode = await loadAvifEncoder();
+  } catch (error) {
+    Logger.error('Failed to load AVIF encoder', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw createConversionError(
+      'UNSUPPORTED_FORMAT',
+      'The AVIF encoder could not be loaded',
+      error
+    );
+  }
+
+  const buffer = await encode(imageData, {
+    quality,
+    speed: AVIF_ENCODER_SPEED,
+    lossless: quality >= 100,
+  });
+
+  return new Blob([buffer], { type: MIME_TYPES.avif });
+}
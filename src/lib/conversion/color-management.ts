@@ -0,0 +1,225 @@
+import { Logger } from '../logger';
+import { Matrix3, parseIccRgbProfile, ToneCurve } from '../metadata/icc';
+import { HeifColourInfo, NclxColour } from './heif-container';
+import { ImageFormat, PixelBuffer } from './types';
+
+/** Source linear RGB to linear sRGB, plus the source decoding curves */
+export interface SrgbConversion {
+  curves: [ToneCurve, ToneCurve, ToneCurve];
+  matrix: Matrix3;
+}
+
+/** Formats whose containers we can write an ICC profile into */
+const PROFILE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+
+// XYZ to linear sRGB, for D50 (ICC connection space, Bradford-adapted) and D65
+const XYZ_D50_TO_SRGB: Matrix3 = [
+  3.1338561, -1.6168667, -0.4906146, -0.9787684, 1.9161415, 0.033454, 0.0719453,
+  -0.2289914, 1.4052427,
+];
+const XYZ_D65_TO_SRGB: Matrix3 = [
+  3.2404542, -1.5371385, -0.4985314, -0.969266, 1.8760108, 0.041556, 0.0556434,
+  -0.2040259, 1.0572252,
+];
+
+// CIE xy of red, green, blue and white for the nclx primaries we handle.
+// Code 1 (BT.709) shares sRGB's primaries and needs no conversion.
+const NCLX_PRIMARIES: Record<number, number[][]> = {
+  9: [
+    [0.708, 0.292],
+    [0.17, 0.797],
+    [0.131, 0.046],
+    [0.3127, 0.329],
+  ],
+  12: [
+    [0.68, 0.32],
+    [0.265, 0.69],
+    [0.15, 0.06],
+    [0.3127, 0.329],
+  ],
+};
+
+export const srgbToLinear: ToneCurve = (v) =>
+  v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+
+export const linearToSrgb = (v: number): number =>
+  v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+const bt709ToLinear: ToneCurve = (v) =>
+  v < 0.081 ? v / 4.5 : Math.pow((v + 0.099) / 1.099, 1 / 0.45);
+
+// nclx transfer characteristics we can decode. PQ and HLG (16, 18) are HDR
+// and need tone mapping rather than a curve swap.
+const NCLX_TRANSFERS: Record<number, ToneCurve> = {
+  1: bt709ToLinear,
+  4: (v) => Math.pow(v, 2.2),
+  5: (v) => Math.pow(v, 2.8),
+  6: bt709ToLinear,
+  8: (v) => v,
+  13: srgbToLinear,
+  14: bt709ToLinear,
+  15: bt709ToLinear,
+};
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  const out = new Array<number>(9);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out[row * 3 + col] =
+        a[row * 3] * b[col] +
+        a[row * 3 + 1] * b[3 + col] +
+        a[row * 3 + 2] * b[6 + col];
+    }
+  }
+  return out as Matrix3;
+}
+
+function invert([a, b, c, d, e, f, g, h, i]: Matrix3): Matrix3 {
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    (e * i - f * h) / det,
+    (c * h - b * i) / det,
+    (b * f - c * e) / det,
+    (f * g - d * i) / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+/** RGB to XYZ for a set of primaries, normalised so white has Y = 1 */
+function primariesToXyz(primaries: number[][]): Matrix3 {
+  const [r, g, b, white] = primaries.map(([x, y]) => [
+    x / y,
+    1,
+    (1 - x - y) / y,
+  ]);
+  const m: Matrix3 = [r[0], g[0], b[0], r[1], g[1], b[1], r[2], g[2], b[2]];
+  const inverse = invert(m);
+  const scale = [0, 1, 2].map(
+    (row) =>
+      inverse[row * 3] * white[0] +
+      inverse[row * 3 + 1] * white[1] +
+      inverse[row * 3 + 2] * white[2]
+  );
+  return m.map((value, index) => value * scale[index % 3]) as Matrix3;
+}
+
+function isIdentity(matrix: Matrix3): boolean {
+  return matrix.every(
+    (value, index) => Math.abs(value - (index % 4 === 0 ? 1 : 0)) < 0.002
+  );
+}
+
+function isSrgbCurve(curve: ToneCurve): boolean {
+  return [0.02, 0.2, 0.5, 0.8].every(
+    (v) => Math.abs(curve(v) - srgbToLinear(v)) < 0.002
+  );
+}
+
+function fromNclx(nclx: NclxColour): SrgbConversion | null {
+  const primaries = NCLX_PRIMARIES[nclx.colourPrimaries];
+  // Unspecified transfer on an otherwise wide-gamut image is sRGB in practice
+  const curve =
+    nclx.transferCharacteristics === 2
+      ? srgbToLinear
+      : NCLX_TRANSFERS[nclx.transferCharacteristics];
+  if (!primaries || !curve) return null;
+
+  return {
+    curves: [curve, curve, curve],
+    matrix: multiply(XYZ_D65_TO_SRGB, primariesToXyz(primaries)),
+  };
+}
+
+export function canEmbedProfile(format: ImageFormat): boolean {
+  return PROFILE_FORMATS.includes(format);
+}
+
+/**
+ * Works out how to bring an image into sRGB. Returns null when it already is
+ * sRGB, is untagged, or uses a colour space we can't convert (logged), in
+ * which case the pixels are best left alone.
+ */
+export function getSrgbConversion(
+  colour: HeifColourInfo
+): SrgbConversion | null {
+  if (colour.icc) {
+    const profile = parseIccRgbProfile(colour.icc);
+    if (profile) {
+      const matrix = multiply(XYZ_D50_TO_SRGB, profile.rgbToXyz);
+      const alreadySrgb =
+        isIdentity(matrix) && profile.curves.every(isSrgbCurve);
+      return alreadySrgb ? null : { curves: profile.curves, matrix };
+    }
+    Logger.warn('Unsupported ICC profile, leaving colours unconverted');
+    return null;
+  }
+
+  const { nclx } = colour;
+  if (!nclx || nclx.colourPrimaries === 1 || nclx.colourPrimaries === 2) {
+    return null;
+  }
+
+  const conversion = fromNclx(nclx);
+  if (!conversion) {
+    Logger.warn('Unsupported nclx colour space, leaving colours unconverted', {
+      colourPrimaries: nclx.colourPrimaries,
+      transferCharacteristics: nclx.transferCharacteristics,
+    });
+  }
+  return conversion;
+}
+
+/**
+ * Converts interleaved RGBA samples in place. Decoding and encoding go
+ * through lookup tables, so only the matrix is evaluated per pixel.
+ * Out-of-gamut colours are clipped.
+ */
+function convertSamples(
+  data: Uint8ClampedArray | Uint16Array,
+  maxValue: number,
+  { curves, matrix }: SrgbConversion
+): void {
+  const decode = curves.map((curve) => {
+    const table = new Float32Array(maxValue + 1);
+    for (let i = 0; i <= maxValue; i++) table[i] = curve(i / maxValue);
+    return table;
+  });
+
+  const encodeSize = Math.max(16384, maxValue + 1);
+  const encode = new Float32Array(encodeSize);
+  for (let i = 0; i < encodeSize; i++) {
+    encode[i] = Math.round(linearToSrgb(i / (encodeSize - 1)) * maxValue);
+  }
+  const toEncoded = (linear: number) =>
+    encode[Math.round(Math.min(Math.max(linear, 0), 1) * (encodeSize - 1))];
+
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = matrix;
+  const [rTable, gTable, bTable] = decode;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = rTable[data[i]];
+    const g = gTable[data[i + 1]];
+    const b = bTable[data[i + 2]];
+    data[i] = toEncoded(m0 * r + m1 * g + m2 * b);
+    data[i + 1] = toEncoded(m3 * r + m4 * g + m5 * b);
+    data[i + 2] = toEncoded(m6 * r + m7 * g + m8 * b);
+  }
+}
+
+export function convertImageDataToSrgb(
+  imageData: ImageData,
+  conversion: SrgbConversion
+): void {
+  convertSamples(imageData.data, 255, conversion);
+}
+
+export function convertPixelBufferToSrgb(
+  buffer: PixelBuffer,
+  conversion: SrgbConversion
+): void {
+  convertSamples(buffer.data, 2 ** buffer.bitDepth - 1, conversion);
+}
@@ -0,0 +1,289 @@
+import type { HeifImage } from 'libheif-js/wasm-bundle';
+import { Logger } from '../logger';
+import {
+  createConversionError,
+  throwIfAborted,
+  toConversionError,
+} from './errors';
+import {
+  listAuxiliaryImages,
+  listHeifImages,
+  parseHeifContainer,
+} from './heif-container';
+import {
+  DecodeOptions,
+  HeicDecoder,
+  HeifAuxiliaryImageInfo,
+  HeifImageInfo,
+  PixelBuffer,
+} from './types';
+
+const HEIF_BRANDS = [
+  'heic',
+  'heix',
+  'hevc',
+  'hevx',
+  'heim',
+  'heis',
+  'hevm',
+  'hevs',
+  'mif1',
+  'msf1',
+];
+
+type LibheifModule = typeof import('libheif-js/wasm-bundle').default;
+
+let libheifPromise: Promise<LibheifModule> | null = null;
+
+function loadLibheif(): Promise<LibheifModule> {
+  if (!libheifPromise) {
+    libheifPromise = import('libheif-js/wasm-bundle')
+      .then((module) => module.default)
+      .catch((error) => {
+        libheifPromise = null;
+        throw error;
+      });
+  }
+  return libheifPromise;
+}
+
+/**
+ * Checks the ISOBMFF `ftyp` box for a HEIF brand. File extensions and MIME
+ * types are unreliable for HEIC, so the bytes are the source of truth.
+ */
+export function isHeifBuffer(buffer: ArrayBuffer | Uint8Array): boolean {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  if (bytes.length < 12) return false;
+
+  const boxType = String.fromCharCode(...bytes.subarray(4, 8));
+  if (boxType !== 'ftyp') return false;
+
+  const boxSize =
+    ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+  const end = Math.min(boxSize || bytes.length, bytes.length);
+
+  // Major brand at offset 8, compatible brands from offset 16 onwards
+  for (let offset = 8; offset + 4 <= end; offset += offset === 8 ? 8 : 4) {
+    const brand = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (HEIF_BRANDS.includes(brand)) return true;
+  }
+
+  return false;
+}
+
+function pickImage(
+  libheif: LibheifModule,
+  context: unknown,
+  images: HeifImage[],
+  itemId?: number
+): HeifImage {
+  if (itemId === undefined) {
+    const primary = images.find(
+      (image) => !!libheif.heif_image_handle_is_primary_image(image.handle)
+    );
+    return primary || images[0];
+  }
+
+  const ids = libheif.heif_js_context_get_list_of_top_level_image_IDs(context);
+  const index = Array.isArray(ids) ? ids.indexOf(itemId) : -1;
+  if (index === -1 || !images[index]) {
+    throw createConversionError(
+      'CONVERSION_FAILED',
+      `Image ${itemId} not found in HEIC container`
+    );
+  }
+  return images[index];
+}
+
+function renderImage(image: HeifImage): Promise<ImageData> {
+  const width = image.get_width();
+  const height = image.get_height();
+  const imageData = new ImageData(width, height);
+
+  return new Promise((resolve, reject) => {
+    image.display(imageData, (result) => {
+      if (!result) {
+        reject(
+          createConversionError(
+            'CONVERSION_FAILED',
+            'libheif could not decode the image data'
+          )
+        );
+        return;
+      }
+      resolve(imageData);
+    });
+  });
+}
+
+/**
+ * Decodes to 16-bit little-endian RGBA. libheif keeps the stream's own bit
+ * depth (10 for iPhone HDR captures), reported as `bits_per_pixel`.
+ */
+function renderPixels(libheif: LibheifModule, image: HeifImage): PixelBuffer {
+  const decoded = libheif.heif_js_decode_image2(
+    image.handle,
+    libheif.heif_colorspace.heif_colorspace_RGB,
+    libheif.heif_chroma.heif_chroma_interleaved_RRGGBBAA_LE
+  );
+  if (!decoded || 'code' in decoded) {
+    throw createConversionError(
+      'CONVERSION_FAILED',
+      'libheif could not decode the image at full bit depth'
+    );
+  }
+
+  try {
+    const channel = decoded.channels.find(
+      (candidate) =>
+        candidate.id === libheif.heif_channel.heif_channel_interleaved
+    );
+    if (!channel) {
+      throw createConversionError(
+        'CONVERSION_FAILED',
+        'libheif returned no interleaved RGBA plane'
+      );
+    }
+
+    const { width, height, stride } = channel;
+    const rowBytes = width * 8;
+    const bytes = new Uint8Array(rowBytes * height);
+    // Copy out of wasm memory before the image is released
+    for (let y = 0; y < height; y++) {
+      bytes.set(
+        channel.data.subarray(y * stride, y * stride + rowBytes),
+        y * rowBytes
+      );
+    }
+
+    const view = new DataView(bytes.buffer);
+    const data = new Uint16Array(width * height * 4);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = view.getUint16(i * 2, true);
+    }
+
+    return { width, height, bitDepth: channel.bits_per_pixel, data };
+  } finally {
+    libheif.heif_image_release(decoded.image);
+  }
+}
+
+async function readHeifBytes(file: File | Blob): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isHeifBuffer(bytes)) {
+    throw createConversionError(
+      'UNSUPPORTED_FORMAT',
+      'The file is not a valid HEIC/HEIF image'
+    );
+  }
+  return bytes;
+}
+
+export class LibheifDecoder implements HeicDecoder {
+  // libheif decodes with default options, which rotate and mirror per irot/imir
+  readonly appliesTransformations = true;
+
+  isSupported(): boolean {
+    return (
+      typeof WebAssembly === 'object' &&
+      typeof WebAssembly.instantiate === 'function' &&
+      typeof ImageData !== 'undefined'
+    );
+  }
+
+  /**
+   * Lists top-level images from the container boxes alone, so it is cheap
+   * enough to run on the main thread without loading libheif.
+   */
+  async listImages(file: File | Blob): Promise<HeifImageInfo[]> {
+    const bytes = await readHeifBytes(file);
+    try {
+      return listHeifImages(parseHeifContainer(bytes));
+    } catch (error) {
+      throw toConversionError(error, 'UNSUPPORTED_FORMAT');
+    }
+  }
+
+  async listAuxiliaryImages(
+    file: File | Blob,
+    itemId?: number
+  ): Promise<HeifAuxiliaryImageInfo[]> {
+    const bytes = await readHeifBytes(file);
+    try {
+      return listAuxiliaryImages(parseHeifContainer(bytes), itemId);
+    } catch (error) {
+      throw toConversionError(error, 'UNSUPPORTED_FORMAT');
+    }
+  }
+
+  decode(file: File | Blob, options: DecodeOptions = {}): Promise<ImageData> {
+    return this.withImage(file, options, (_, image) => renderImage(image));
+  }
+
+  decodePixels(
+    file: File | Blob,
+    options: DecodeOptions = {}
+  ): Promise<PixelBuffer> {
+    return this.withImage(file, options, async (libheif, image) =>
+      renderPixels(libheif, image)
+    );
+  }
+
+  /** Opens the container, hands the selected image over, then frees it all */
+  private async withImage<T>(
+    file: File | Blob,
+    options: DecodeOptions,
+    render: (libheif: LibheifModule, image: HeifImage) => Promise<T>
+  ): Promise<T> {
+    const { signal, itemId } = options;
+
+    if (!this.isSupported()) {
+      throw createConversionError(
+        'UNSUPPORTED_FORMAT',
+        'HEIC decoding requires WebAssembly support in this browser'
+      );
+    }
+
+    const bytes = await readHeifBytes(file);
+    throwIfAborted(signal);
+
+    let libheif: LibheifModule;
+    try {
+      libheif = await loadLibheif();
+    } catch (error) {
+      Logger.error('Failed to load libheif', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw toConversionError(error);
+    }
+
+    throwIfAborted(signal);
+    const decoder = new libheif.HeifDecoder();
+    let images: HeifImage[] = [];
+
+    try {
+      images = decoder.decode(bytes);
+
+      if (images.length === 0) {
+        throw createConversionError(
+          'CONVERSION_FAILED',
+          'No images found in HEIC container'
+        );
+      }
+
+      throwIfAborted(signal);
+      return await render(
+        libheif,
+        pickImage(libheif, decoder.decoder, images, itemId)
+      );
+    } catch (error) {
+      throw toConversionError(error);
+    } finally {
+      images.forEach((image) => image.free());
+      if (decoder.decoder) {
+        libheif.heif_context_free(decoder.decoder);
+        decoder.decoder = null;
+      }
+    }
+  }
+}
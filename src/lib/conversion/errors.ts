@@ -0,0 +1,75 @@
+import { ERROR_MESSAGES } from '../constants';
+import { ConversionError } from './types';
+
+export type ConversionErrorCode = ConversionError['code'];
+
+export class HeicConversionError extends Error implements ConversionError {
+  readonly code: ConversionErrorCode;
+  readonly details?: unknown;
+
+  constructor(code: ConversionErrorCode, message?: string, details?: unknown) {
+    super(message || ERROR_MESSAGES[code]);
+    this.name = 'HeicConversionError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function createConversionError(
+  code: ConversionErrorCode,
+  message?: string,
+  details?: unknown
+): HeicConversionError {
+  return new HeicConversionError(code, message, details);
+}
+
+export function isConversionError(error: unknown): error is ConversionError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as ConversionError).code === 'string' &&
+    typeof (error as ConversionError).message === 'string'
+  );
+}
+
+export function isCancellationError(error: unknown): boolean {
+  return isConversionError(error) && error.code === 'CANCELLED';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createConversionError('CANCELLED');
+  }
+}
+
+// Allocation failures from typed arrays, canvases and the wasm heap, which
+// can pass once other conversions have released their memory
+const OUT_OF_MEMORY_PATTERN =
+  /out of memory|allocation failed|cannot enlarge memory|array buffer allocation/i;
+
+function isOutOfMemory(error: unknown): boolean {
+  return error instanceof Error && OUT_OF_MEMORY_PATTERN.test(error.message);
+}
+
+/**
+ * Wraps anything thrown during conversion into a typed ConversionError,
+ * keeping errors that already carry a code untouched.
+ */
+export function toConversionError(
+  error: unknown,
+  fallbackCode: ConversionErrorCode = 'CONVERSION_FAILED'
+): HeicConversionError {
+  if (error instanceof HeicConversionError) return error;
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new HeicConversionError('CANCELLED', undefined, error);
+  }
+
+  if (isConversionError(error)) {
+    return new HeicConversionError(error.code, error.message, error.details);
+  }
+
+  const message = error instanceof Error ? error.message : undefined;
+  const code = isOutOfMemory(error) ? 'OUT_OF_MEMORY' : fallbackCode;
+  return new HeicConversionError(code, message, error);
+}
@@ -0,0 +1,144 @@
+import { SUPPORTED_OUTPUT_FORMATS } from '../constants';
+import { ImageFormat } from './types';
+
+/** Everything a file name template can refer to, for one output file */
+export interface FileNameContext {
+  originalName: string;
+  /** 1-based position of the file in the queue */
+  index: number;
+  /** 0-based image within a multi-image HEIC, when taken from one */
+  imageIndex?: number;
+  /** When the photo was taken, or when the file was last modified */
+  date: Date;
+  camera: string | null;
+  width: number;
+  height: number;
+  format: ImageFormat;
+  /** Lossy formats only */
+  quality?: number;
+}
+
+const TOKEN_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+const DATE_PARTS = /YYYY|YY|MM|DD|HH|mm|ss/g;
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const UNKNOWN_CAMERA = 'unknown';
+// Reserved on Windows, or by every file system
+// eslint-disable-next-line no-control-regex
+const UNSAFE_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f]/g;
+
+export const FILE_NAME_TOKENS = [
+  'name',
+  'index',
+  'image',
+  'date',
+  'camera',
+  'width',
+  'height',
+  'format',
+  'ext',
+  'quality',
+] as const;
+
+export type FileNameToken = (typeof FILE_NAME_TOKENS)[number];
+
+function isFileNameToken(token: string): token is FileNameToken {
+  return (FILE_NAME_TOKENS as readonly string[]).includes(token);
+}
+
+/** `{index:03}` pads to three digits; any other argument is ignored */
+function pad(value: number, width?: string): string {
+  const digits = Number(width);
+  return Number.isInteger(digits) && digits > 0
+    ? String(value).padStart(digits, '0')
+    : String(value);
+}
+
+function formatDate(date: Date, format = DEFAULT_DATE_FORMAT): string {
+  const two = (value: number) => String(value).padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: two(date.getFullYear() % 100),
+    MM: two(date.getMonth() + 1),
+    DD: two(date.getDate()),
+    HH: two(date.getHours()),
+    mm: two(date.getMinutes()),
+    ss: two(date.getSeconds()),
+  };
+  return format.replace(DATE_PARTS, (part) => parts[part]);
+}
+
+function getExtension(format: ImageFormat): string {
+  const extension =
+    SUPPORTED_OUTPUT_FORMATS.find(({ value }) => value === format)?.extension ??
+    `.${format}`;
+  return extension.slice(1);
+}
+
+function renderToken(
+  token: FileNameToken,
+  argument: string | undefined,
+  context: FileNameContext
+): string {
+  switch (token) {
+    case 'name':
+      return context.originalName.replace(/\.[^/.]+$/, '');
+    case 'index':
+      return pad(context.index, argument);
+    case 'image':
+      return pad((context.imageIndex ?? 0) + 1, argument);
+    case 'date':
+      return formatDate(context.date, argument || undefined);
+    case 'camera':
+      return (context.camera ?? UNKNOWN_CAMERA).replace(/\s+/g, '-');
+    case 'width':
+      return String(context.width);
+    case 'height':
+      return String(context.height);
+    case 'format':
+      return context.format;
+    case 'ext':
+      return getExtension(context.format);
+    case 'quality':
+      return context.quality === undefined ? '' : String(context.quality);
+  }
+}
+
+/** Tokens in `template` that aren't known, so they'd be kept as typed */
+export function getUnknownTokens(template: string): string[] {
+  return [...template.matchAll(TOKEN_PATTERN)]
+    .map(([, token]) => token)
+    .filter((token) => !isFileNameToken(token));
+}
+
+/** Whether `template` needs the Exif data, which costs a read of the file */
+export function usesCaptureDetails(template: string): boolean {
+  return [...template.matchAll(TOKEN_PATTERN)].some(
+    ([, token]) => token === 'date' || token === 'camera'
+  );
+}
+
+/**
+ * Fills in `{token}` and `{token:argument}` placeholders, such as
+ * `{date:YYYY-MM-DD}_{camera}_{index:03}.{ext}`. The extension is added
+ * when the template has no `{ext}`, and characters that aren't allowed in
+ * file names become underscores.
+ */
+export function renderFileNameTemplate(
+  template: string,
+  context: FileNameContext
+): string {
+  const rendered = template.replace(
+    TOKEN_PATTERN,
+    (match, token: string, argument?: string) =>
+      isFileNameToken(token) ? renderToken(token, argument, context) : match
+  );
+  const base = rendered
+    .replace(UNSAFE_CHARACTERS, '_')
+    .trim()
+    // Windows drops trailing dots, which would merge names
+    .replace(/\.+$/, '');
+
+  const extension = getExtension(context.format);
+  if (!base) return `${renderToken('name', undefined, context)}.${extension}`;
+  return /\{ext(:[^}]*)?\}/.test(template) ? base : `${base}.${extension}`;
+}
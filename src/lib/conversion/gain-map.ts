@@ -0,0 +1,163 @@
+import type { GainMapMetadata } from '../metadata/ultra-hdr';
+import { linearToSrgb, srgbToLinear } from './color-management';
+import { HeifContainer, listAuxiliaryImages } from './heif-container';
+import { PixelBuffer } from './types';
+
+// Linear luminance above which HDR highlights are rolled off into SDR
+const TONE_MAP_KNEE = 0.8;
+
+/** The auxiliary gain map image attached to `itemId`, if there is one */
+export function findGainMapItem(
+  container: HeifContainer,
+  itemId: number | null
+): number | null {
+  const gainMap = listAuxiliaryImages(container, itemId).find(
+    (image) => image.type === 'gain-map'
+  );
+  return gainMap?.itemId ?? null;
+}
+
+/** Bilinear sample of the greyscale gain map, in output pixel coordinates */
+function createGainSampler(
+  gainMap: ImageData,
+  width: number,
+  height: number
+): (x: number, y: number) => number {
+  const linear = new Float32Array(256);
+  for (let i = 0; i < 256; i++) linear[i] = srgbToLinear(i / 255);
+
+  const scaleX = gainMap.width / width;
+  const scaleY = gainMap.height / height;
+  const { data } = gainMap;
+  const at = (x: number, y: number) =>
+    linear[data[(y * gainMap.width + x) * 4]];
+
+  return (x, y) => {
+    const gx = Math.min(
+      Math.max((x + 0.5) * scaleX - 0.5, 0),
+      gainMap.width - 1
+    );
+    const gy = Math.min(
+      Math.max((y + 0.5) * scaleY - 0.5, 0),
+      gainMap.height - 1
+    );
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const x1 = Math.min(x0 + 1, gainMap.width - 1);
+    const y1 = Math.min(y0 + 1, gainMap.height - 1);
+    const fx = gx - x0;
+    const fy = gy - y0;
+
+    const top = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+    const bottom = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+}
+
+/**
+ * Rebuilds the HDR rendition (Apple: sdr * (1 + (headroom - 1) * gain)) and
+ * rolls luminance above the knee off smoothly, so highlights keep their
+ * detail instead of clipping. Every pixel still gets its gain; only those
+ * boosted past the knee are compressed.
+ */
+function toneMapSamples(
+  data: Uint8ClampedArray | Uint16Array,
+  width: number,
+  height: number,
+  maxValue: number,
+  gainMap: ImageData,
+  headroom: number
+): void {
+  const decode = new Float32Array(maxValue + 1);
+  for (let i = 0; i <= maxValue; i++) decode[i] = srgbToLinear(i / maxValue);
+
+  const encodeSize = Math.max(16384, maxValue + 1);
+  const encode = new Float32Array(encodeSize);
+  for (let i = 0; i < encodeSize; i++) {
+    encode[i] = Math.round(linearToSrgb(i / (encodeSize - 1)) * maxValue);
+  }
+  const toEncoded = (linear: number) =>
+    encode[Math.round(Math.min(Math.max(linear, 0), 1) * (encodeSize - 1))];
+
+  const span = 1 - TONE_MAP_KNEE;
+  const sample = createGainSampler(gainMap, width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const gain = 1 + (headroom - 1) * sample(x, y);
+      const r = decode[data[i]] * gain;
+      const g = decode[data[i + 1]] * gain;
+      const b = decode[data[i + 2]] * gain;
+
+      const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      const scale =
+        luminance > TONE_MAP_KNEE
+          ? (TONE_MAP_KNEE +
+              span * (1 - Math.exp(-(luminance - TONE_MAP_KNEE) / span))) /
+            luminance
+          : 1;
+
+      data[i] = toEncoded(r * scale);
+      data[i + 1] = toEncoded(g * scale);
+      data[i + 2] = toEncoded(b * scale);
+    }
+  }
+}
+
+export function toneMapImageData(
+  imageData: ImageData,
+  gainMap: ImageData,
+  headroom: number
+): void {
+  const { data, width, height } = imageData;
+  toneMapSamples(data, width, height, 255, gainMap, headroom);
+}
+
+export function toneMapPixelBuffer(
+  buffer: PixelBuffer,
+  gainMap: ImageData,
+  headroom: number
+): void {
+  const { data, width, height, bitDepth } = buffer;
+  toneMapSamples(data, width, height, 2 ** bitDepth - 1, gainMap, headroom);
+}
+
+/**
+ * Re-encodes an Apple gain map as an Ultra HDR recovery map. Both describe
+ * a per-pixel boost, Apple's as linear gain and Ultra HDR's in log2 space
+ * between GainMapMin and GainMapMax.
+ */
+export function toUltraHdrGainMap(
+  gainMap: ImageData,
+  headroom: number
+): { image: ImageData; metadata: GainMapMetadata } {
+  const maxLog = Math.log2(headroom);
+  const levels = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    const gain = 1 + (headroom - 1) * srgbToLinear(i / 255);
+    levels[i] = maxLog > 0 ? Math.round((Math.log2(gain) / maxLog) * 255) : 0;
+  }
+
+  const image = new ImageData(gainMap.width, gainMap.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const level = levels[gainMap.data[i]];
+    image.data[i] = level;
+    image.data[i + 1] = level;
+    image.data[i + 2] = level;
+    image.data[i + 3] = 255;
+  }
+
+  return {
+    image,
+    metadata: {
+      gainMapMin: 0,
+      gainMapMax: maxLog,
+      gamma: 1,
+      offsetSdr: 0,
+      offsetHdr: 0,
+      hdrCapacityMin: 0,
+      hdrCapacityMax: maxLog,
+    },
+  };
+}
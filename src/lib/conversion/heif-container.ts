@@ -0,0 +1,684 @@
+/**
+ * Minimal ISOBMFF/HEIF box parser. libheif-js only exposes decoded pixels,
+ * so anything else we need from the container (Exif items, transform and
+ * colour properties, item references) is read directly from the `meta` box.
+ */
+
+import { createConversionError } from './errors';
+import {
+  AuxiliaryImageType,
+  HeifAuxiliaryImageInfo,
+  HeifImageInfo,
+} from './types';
+
+// Item types that hold pixels; everything else (Exif, mime, uri) is metadata
+const IMAGE_ITEM_TYPES = [
+  'hvc1',
+  'av01',
+  'vvc1',
+  'grid',
+  'iden',
+  'iovl',
+  'jpeg',
+  'j2k1',
+  'unci',
+];
+
+// References that make an image a part of, or an extra for, another image
+const DEPENDENT_REFERENCE_TYPES = ['thmb', 'auxl', 'base'];
+
+export const APPLE_GAIN_MAP_AUX_TYPE =
+  'urn:com:apple:photo:2020:aux:hdrgainmap';
+const DEPTH_AUX_TYPES = [
+  'urn:mpeg:hevc:2015:auxid:2',
+  'urn:mpeg:mpegB:cicp:systems:auxiliary:depth',
+];
+const ALPHA_AUX_TYPES = [
+  'urn:mpeg:hevc:2015:auxid:1',
+  'urn:mpeg:mpegB:cicp:systems:auxiliary:alpha',
+];
+
+// Unregistered reference type, so readers skip the reference entirely
+const DETACHED_REFERENCE_TYPE = 'xaux';
+
+export interface HeifItem {
+  id: number;
+  type: string;
+  name: string;
+  hidden: boolean;
+  contentType?: string;
+}
+
+export interface HeifItemReference {
+  type: string;
+  fromId: number;
+  toIds: number[];
+}
+
+export type HeifProperty =
+  | { type: 'ispe'; width: number; height: number }
+  | { type: 'irot'; angle: number }
+  | { type: 'imir'; axis: 0 | 1 }
+  | { type: 'pixi'; bitsPerChannel: number[] }
+  | { type: 'auxC'; auxType: string }
+  | {
+      type: 'colr';
+      colourType: 'nclx';
+      colourPrimaries: number;
+      transferCharacteristics: number;
+      matrixCoefficients: number;
+      fullRange: boolean;
+    }
+  | { type: 'colr'; colourType: 'prof' | 'rICC'; icc: Uint8Array }
+  | { type: 'other'; boxType: string };
+
+interface ItemLocation {
+  constructionMethod: number;
+  baseOffset: number;
+  extents: { offset: number; length: number }[];
+}
+
+interface Box {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+class ByteReader {
+  private view: DataView;
+
+  constructor(
+    readonly bytes: Uint8Array,
+    public offset = 0
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): number {
+    const high = this.u32();
+    const low = this.u32();
+    return high * 2 ** 32 + low;
+  }
+
+  uint(size: number): number {
+    switch (size) {
+      case 0:
+        return 0;
+      case 2:
+        return this.u16();
+      case 4:
+        return this.u32();
+      case 8:
+        return this.u64();
+      default:
+        throw createConversionError(
+          'UNSUPPORTED_FORMAT',
+          `Unsupported field size ${size} in HEIF container`
+        );
+    }
+  }
+
+  fourcc(): string {
+    const value = String.fromCharCode(
+      ...this.bytes.subarray(this.offset, this.offset + 4)
+    );
+    this.offset += 4;
+    return value;
+  }
+
+  cstring(end: number): string {
+    let stop = this.offset;
+    while (stop < end && this.bytes[stop] !== 0) stop++;
+    const value = new TextDecoder().decode(
+      this.bytes.subarray(this.offset, stop)
+    );
+    this.offset = Math.min(stop + 1, end);
+    return value;
+  }
+
+  /** Reads version and flags of an ISO "FullBox" */
+  fullBoxHeader(): { version: number; flags: number } {
+    const version = this.u8();
+    const flags = (this.u8() << 16) | (this.u8() << 8) | this.u8();
+    return { version, flags };
+  }
+}
+
+function readBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  const reader = new ByteReader(bytes, start);
+
+  while (reader.offset + 8 <= end) {
+    const boxStart = reader.offset;
+    let size = reader.u32();
+    const type = reader.fourcc();
+
+    if (size === 1) {
+      size = reader.u64();
+    } else if (size === 0) {
+      size = end - boxStart;
+    }
+
+    if (size < 8 || boxStart + size > end) break;
+
+    boxes.push({
+      type,
+      start: boxStart,
+      contentStart: reader.offset,
+      end: boxStart + size,
+    });
+    reader.offset = boxStart + size;
+  }
+
+  return boxes;
+}
+
+function parseProperty(bytes: Uint8Array, box: Box): HeifProperty {
+  const reader = new ByteReader(bytes, box.contentStart);
+
+  switch (box.type) {
+    case 'ispe': {
+      reader.fullBoxHeader();
+      return { type: 'ispe', width: reader.u32(), height: reader.u32() };
+    }
+    case 'irot':
+      return { type: 'irot', angle: (reader.u8() & 0x03) * 90 };
+    case 'imir':
+      return { type: 'imir', axis: (reader.u8() & 0x01) as 0 | 1 };
+    case 'pixi': {
+      reader.fullBoxHeader();
+      const channels = reader.u8();
+      const bitsPerChannel: number[] = [];
+      for (let i = 0; i < channels; i++) bitsPerChannel.push(reader.u8());
+      return { type: 'pixi', bitsPerChannel };
+    }
+    case 'auxC': {
+      reader.fullBoxHeader();
+      return { type: 'auxC', auxType: reader.cstring(box.end) };
+    }
+    case 'colr': {
+      const colourType = reader.fourcc();
+      if (colourType === 'nclx') {
+        const colourPrimaries = reader.u16();
+        const transferCharacteristics = reader.u16();
+        const matrixCoefficients = reader.u16();
+        const fullRange = (reader.u8() & 0x80) !== 0;
+        return {
+          type: 'colr',
+          colourType,
+          colourPrimaries,
+          transferCharacteristics,
+          matrixCoefficients,
+          fullRange,
+        };
+      }
+      if (colourType === 'prof' || colourType === 'rICC') {
+        return {
+          type: 'colr',
+          colourType,
+          icc: bytes.slice(reader.offset, box.end),
+        };
+      }
+      return { type: 'other', boxType: box.type };
+    }
+    default:
+      return { type: 'other', boxType: box.type };
+  }
+}
+
+export class HeifContainer {
+  readonly primaryItemId: number | null;
+  readonly items = new Map<number, HeifItem>();
+  readonly references: HeifItemReference[] = [];
+
+  private locations = new Map<number, ItemLocation>();
+  private properties: HeifProperty[] = [];
+  private associations = new Map<number, number[]>();
+  private idat: Uint8Array | null = null;
+  // Byte positions patched by exposeDependentImage()
+  private referenceTypeOffsets = new Map<HeifItemReference, number>();
+  private itemFlagOffsets = new Map<number, number>();
+
+  constructor(private bytes: Uint8Array) {
+    const meta = readBoxes(bytes, 0, bytes.length).find(
+      (box) => box.type === 'meta'
+    );
+    if (!meta) {
+      throw createConversionError(
+        'UNSUPPORTED_FORMAT',
+        'HEIF container has no meta box'
+      );
+    }
+
+    // meta is a FullBox, so children start after version and flags
+    const children = readBoxes(bytes, meta.contentStart + 4, meta.end);
+    let primaryItemId: number | null = null;
+
+    for (const box of children) {
+      switch (box.type) {
+        case 'pitm': {
+          const reader = new ByteReader(bytes, box.contentStart);
+          const { version } = reader.fullBoxHeader();
+          primaryItemId = version === 0 ? reader.u16() : reader.u32();
+          break;
+        }
+        case 'iinf':
+          this.parseItemInfo(box);
+          break;
+        case 'iloc':
+          this.parseItemLocations(box);
+          break;
+        case 'iref':
+          this.parseItemReferences(box);
+          break;
+        case 'iprp':
+          this.parseItemProperties(box);
+          break;
+        case 'idat':
+          this.idat = bytes.subarray(box.contentStart, box.end);
+          break;
+      }
+    }
+
+    this.primaryItemId = primaryItemId;
+  }
+
+  /**
+   * Images a viewer would show on their own, in file order. Mirrors
+   * libheif: thumbnails, auxiliary images, grid tiles and hidden items are
+   * excluded.
+   */
+  getTopLevelImageIds(): number[] {
+    const dependent = new Set<number>();
+    for (const ref of this.references) {
+      if (DEPENDENT_REFERENCE_TYPES.includes(ref.type)) {
+        dependent.add(ref.fromId);
+      } else if (ref.type === 'dimg') {
+        ref.toIds.forEach((id) => dependent.add(id));
+      }
+    }
+
+    return [...this.items.values()]
+      .filter(
+        (item) =>
+          IMAGE_ITEM_TYPES.includes(item.type) &&
+          !item.hidden &&
+          !dependent.has(item.id)
+      )
+      .map((item) => item.id);
+  }
+
+  getItemsOfType(type: string): HeifItem[] {
+    return [...this.items.values()].filter((item) => item.type === type);
+  }
+
+  /** Item IDs that `fromId` points at through a reference of `type` */
+  getReferencedIds(fromId: number, type: string): number[] {
+    return this.references
+      .filter((ref) => ref.type === type && ref.fromId === fromId)
+      .flatMap((ref) => ref.toIds);
+  }
+
+  /** Items that reference `toId` through a reference of `type` */
+  getReferencingIds(toId: number, type: string): number[] {
+    return this.references
+      .filter((ref) => ref.type === type && ref.toIds.includes(toId))
+      .map((ref) => ref.fromId);
+  }
+
+  getProperties(itemId: number): HeifProperty[] {
+    return (this.associations.get(itemId) ?? [])
+      .map((index) => this.properties[index - 1])
+      .filter((property): property is HeifProperty => !!property);
+  }
+
+  getProperty<T extends HeifProperty['type']>(
+    itemId: number,
+    type: T
+  ): Extract<HeifProperty, { type: T }> | undefined {
+    return this.getProperties(itemId).find(
+      (property): property is Extract<HeifProperty, { type: T }> =>
+        property.type === type
+    );
+  }
+
+  /**
+   * Returns a copy of the file in which auxiliary image or thumbnail `itemId`
+   * is an ordinary top-level image, because libheif-js can only decode those.
+   * Its `auxl`/`thmb` reference is renamed to a type readers ignore and its
+   * hidden flag cleared, so no offsets move.
+   */
+  exposeDependentImage(itemId: number): Uint8Array {
+    const bytes = this.bytes.slice();
+
+    for (const [reference, offset] of this.referenceTypeOffsets) {
+      if (
+        (reference.type === 'auxl' || reference.type === 'thmb') &&
+        reference.fromId === itemId
+      ) {
+        for (let i = 0; i < 4; i++) {
+          bytes[offset + i] = DETACHED_REFERENCE_TYPE.charCodeAt(i);
+        }
+      }
+    }
+
+    const flagOffset = this.itemFlagOffsets.get(itemId);
+    if (flagOffset !== undefined) bytes[flagOffset] &= ~0x01;
+
+    return bytes;
+  }
+
+  getItemData(itemId: number): Uint8Array | null {
+    const location = this.locations.get(itemId);
+    if (!location) return null;
+
+    const source =
+      location.constructionMethod === 0
+        ? this.bytes
+        : location.constructionMethod === 1
+          ? this.idat
+          : null;
+    if (!source) return null;
+
+    const totalLength = location.extents.reduce(
+      (sum, extent) => sum + extent.length,
+      0
+    );
+    const data = new Uint8Array(totalLength);
+    let written = 0;
+
+    for (const extent of location.extents) {
+      const start = location.baseOffset + extent.offset;
+      const length = extent.length || source.length - start;
+      if (start + length > source.length) return null;
+      data.set(source.subarray(start, start + length), written);
+      written += length;
+    }
+
+    return written === totalLength ? data : data.subarray(0, written);
+  }
+
+  private parseItemInfo(box: Box): void {
+    const reader = new ByteReader(this.bytes, box.contentStart);
+    const { version } = reader.fullBoxHeader();
+    reader.offset += version === 0 ? 2 : 4; // entry_count
+
+    for (const infe of readBoxes(this.bytes, reader.offset, box.end)) {
+      if (infe.type !== 'infe') continue;
+
+      const entry = new ByteReader(this.bytes, infe.contentStart);
+      const { version: infeVersion, flags } = entry.fullBoxHeader();
+      if (infeVersion < 2) continue;
+
+      const id = infeVersion === 2 ? entry.u16() : entry.u32();
+      entry.u16(); // item_protection_index
+      const type = entry.fourcc();
+      const name = entry.cstring(infe.end);
+      const contentType = type === 'mime' ? entry.cstring(infe.end) : undefined;
+
+      this.itemFlagOffsets.set(id, infe.contentStart + 3);
+      this.items.set(id, {
+        id,
+        type,
+        name,
+        hidden: (flags & 0x01) !== 0,
+        contentType,
+      });
+    }
+  }
+
+  private parseItemLocations(box: Box): void {
+    const reader = new ByteReader(this.bytes, box.contentStart);
+    const { version } = reader.fullBoxHeader();
+
+    const sizes = reader.u8();
+    const offsetSize = sizes >> 4;
+    const lengthSize = sizes & 0x0f;
+    const moreSizes = reader.u8();
+    const baseOffsetSize = moreSizes >> 4;
+    const indexSize = version === 1 || version === 2 ? moreSizes & 0x0f : 0;
+    const itemCount = version < 2 ? reader.u16() : reader.u32();
+
+    for (let i = 0; i < itemCount; i++) {
+      const id = version < 2 ? reader.u16() : reader.u32();
+      const constructionMethod =
+        version === 1 || version === 2 ? reader.u16() & 0x0f : 0;
+      reader.u16(); // data_reference_index
+      const baseOffset = reader.uint(baseOffsetSize);
+      const extentCount = reader.u16();
+      const extents: ItemLocation['extents'] = [];
+
+      for (let e = 0; e < extentCount; e++) {
+        if (indexSize > 0) reader.uint(indexSize);
+        const offset = reader.uint(offsetSize);
+        const length = reader.uint(lengthSize);
+        extents.push({ offset, length });
+      }
+
+      this.locations.set(id, { constructionMethod, baseOffset, extents });
+    }
+  }
+
+  private parseItemReferences(box: Box): void {
+    const reader = new ByteReader(this.bytes, box.contentStart);
+    const { version } = reader.fullBoxHeader();
+    const readId = () => (version === 0 ? reader.u16() : reader.u32());
+
+    for (const ref of readBoxes(this.bytes, reader.offset, box.end)) {
+      reader.offset = ref.contentStart;
+      const fromId = readId();
+      const count = reader.u16();
+      const toIds: number[] = [];
+      for (let i = 0; i < count; i++) toIds.push(readId());
+
+      const reference = { type: ref.type, fromId, toIds };
+      this.references.push(reference);
+      this.referenceTypeOffsets.set(reference, ref.start + 4);
+    }
+  }
+
+  private parseItemProperties(box: Box): void {
+    for (const child of readBoxes(this.bytes, box.contentStart, box.end)) {
+      if (child.type === 'ipco') {
+        this.properties = readBoxes(
+          this.bytes,
+          child.contentStart,
+          child.end
+        ).map((property) => parseProperty(this.bytes, property));
+      } else if (child.type === 'ipma') {
+        this.parseAssociations(child);
+      }
+    }
+  }
+
+  private parseAssociations(box: Box): void {
+    const reader = new ByteReader(this.bytes, box.contentStart);
+    const { version, flags } = reader.fullBoxHeader();
+    const entryCount = reader.u32();
+
+    for (let i = 0; i < entryCount; i++) {
+      const id = version < 1 ? reader.u16() : reader.u32();
+      const count = reader.u8();
+      const indices: number[] = [];
+
+      for (let a = 0; a < count; a++) {
+        // Top bit is the "essential" flag; the rest is a 1-based index
+        indices.push(flags & 0x01 ? reader.u16() & 0x7fff : reader.u8() & 0x7f);
+      }
+
+      this.associations.set(id, [
+        ...(this.associations.get(id) ?? []),
+        ...indices,
+      ]);
+    }
+  }
+}
+
+export function parseHeifContainer(
+  buffer: ArrayBuffer | Uint8Array
+): HeifContainer {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  return new HeifContainer(bytes);
+}
+
+/**
+ * Enumerates the top-level images (burst frames, Live Photo stills, image
+ * sequences stored as items) with their display dimensions.
+ */
+export function listHeifImages(container: HeifContainer): HeifImageInfo[] {
+  return container.getTopLevelImageIds().map((itemId, index) => ({
+    itemId,
+    index,
+    ...getDisplaySize(container, itemId),
+    isPrimary: itemId === container.primaryItemId,
+  }));
+}
+
+/** Dimensions after rotation, from `ispe` and any `irot` quarter turns */
+function getDisplaySize(
+  container: HeifContainer,
+  itemId: number
+): { width: number; height: number } {
+  const ispe = container.getProperty(itemId, 'ispe');
+  const quarterTurns = container
+    .getProperties(itemId)
+    .filter((property) => property.type === 'irot')
+    .reduce((turns, property) => turns + property.angle / 90, 0);
+  const swap = quarterTurns % 2 === 1;
+
+  return {
+    width: (swap ? ispe?.height : ispe?.width) ?? 0,
+    height: (swap ? ispe?.width : ispe?.height) ?? 0,
+  };
+}
+
+function classifyAuxiliaryType(auxType: string): AuxiliaryImageType {
+  if (DEPTH_AUX_TYPES.includes(auxType)) return 'depth';
+  if (ALPHA_AUX_TYPES.includes(auxType)) return 'alpha';
+  if (auxType === APPLE_GAIN_MAP_AUX_TYPE) return 'gain-map';
+  // Apple's portrait effects matte and the semantic skin/hair/sky mattes
+  if (auxType.startsWith('urn:com:apple:photo:') && auxType.endsWith('matte')) {
+    return 'matte';
+  }
+  return 'other';
+}
+
+/**
+ * The largest `thmb` thumbnail of `itemId`, if the file has one. Apple
+ * stores a single small HEVC preview next to every photo.
+ */
+export function findThumbnailItem(
+  container: HeifContainer,
+  itemId: number | null = container.primaryItemId
+): number | null {
+  if (itemId === null) return null;
+
+  const thumbnails = container
+    .getReferencingIds(itemId, 'thmb')
+    .map((id) => ({ id, ...getDisplaySize(container, id) }))
+    .sort((a, b) => b.width * b.height - a.width * a.height);
+  return thumbnails[0]?.id ?? null;
+}
+
+/**
+ * Lists the auxiliary images (depth, alpha, mattes, gain maps) attached to
+ * `itemId` through `auxl` references, classified by their `auxC` type.
+ */
+export function listAuxiliaryImages(
+  container: HeifContainer,
+  itemId: number | null = container.primaryItemId
+): HeifAuxiliaryImageInfo[] {
+  if (itemId === null) return [];
+
+  return container.getReferencingIds(itemId, 'auxl').map((auxId) => {
+    const auxType = container.getProperty(auxId, 'auxC')?.auxType ?? '';
+    return {
+      itemId: auxId,
+      type: classifyAuxiliaryType(auxType),
+      auxType,
+      ...getDisplaySize(container, auxId),
+    };
+  });
+}
+
+/**
+ * Returns the TIFF payload of the Exif item describing `itemId` (the primary
+ * image by default). HEIF Exif items start with a 4-byte offset to the TIFF
+ * header, usually skipping an `Exif\0\0` marker.
+ */
+export function extractExif(
+  container: HeifContainer,
+  itemId: number | null = container.primaryItemId
+): Uint8Array | null {
+  const exifItems = container.getItemsOfType('Exif');
+  const describing =
+    itemId === null
+      ? []
+      : exifItems.filter((item) =>
+          container.getReferencedIds(item.id, 'cdsc').includes(itemId)
+        );
+  const item = describing[0] ?? exifItems[0];
+  if (!item) return null;
+
+  const data = container.getItemData(item.id);
+  if (!data || data.length < 4) return null;
+
+  const headerOffset = new DataView(
+    data.buffer,
+    data.byteOffset,
+    data.byteLength
+  ).getUint32(0);
+  const tiffStart = 4 + headerOffset;
+  if (tiffStart + 8 > data.length) return null;
+
+  return data.slice(tiffStart);
+}
+
+export type NclxColour = Extract<HeifProperty, { colourType: 'nclx' }>;
+
+export interface HeifColourInfo {
+  icc: Uint8Array | null;
+  nclx: NclxColour | null;
+}
+
+/**
+ * Collects the `colr` properties of an image. Grid images sometimes only
+ * label their tiles, so the first tile is consulted when the grid has none.
+ */
+export function getColourInfo(
+  container: HeifContainer,
+  itemId: number | null = container.primaryItemId
+): HeifColourInfo {
+  const info: HeifColourInfo = { icc: null, nclx: null };
+  if (itemId === null) return info;
+
+  const firstTile = container.getReferencedIds(itemId, 'dimg')[0];
+  for (const id of [itemId, firstTile]) {
+    if (id === undefined) continue;
+    for (const property of container.getProperties(id)) {
+      if (property.type !== 'colr') continue;
+      if (property.colourType === 'nclx') info.nclx ??= property;
+      else info.icc ??= property.icc;
+    }
+    if (info.icc || info.nclx) break;
+  }
+
+  return info;
+}
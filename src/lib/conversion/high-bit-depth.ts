@@ -0,0 +1,95 @@
+import { throwIfAborted, toConversionError } from './errors';
+import { encodePng16 } from './png-encoder';
+import { getTargetDimensions, validateOptions } from './processor';
+import { resamplePixelBuffer, sharpenPixelBuffer } from './resample';
+import { encodeTiff16 } from './tiff-encoder';
+import {
+  ConversionOptions,
+  PhaseProgressCallback,
+  ConvertedImage,
+  PixelBuffer,
+} from './types';
+
+export function wantsHighBitDepth(options: ConversionOptions): boolean {
+  return (
+    options.bitDepth === 16 &&
+    (options.format === 'png' || options.format === 'tiff')
+  );
+}
+
+/**
+ * The 16-bit counterpart of CanvasImageProcessor. Canvas is 8-bit only, so
+ * resizing and encoding happen on the PixelBuffer itself.
+ */
+export async function processPixelBuffer(
+  buffer: PixelBuffer,
+  options: ConversionOptions,
+  onProgress?: PhaseProgressCallback,
+  signal?: AbortSignal
+): Promise<ConvertedImage> {
+  validateOptions(options);
+
+  try {
+    throwIfAborted(signal);
+    onProgress?.({
+      phase: 'processing',
+      progress: 0,
+      message: 'Preparing image...',
+    });
+
+    const { width, height, crop } = getTargetDimensions(
+      buffer.width,
+      buffer.height,
+      options
+    );
+    const resized = resamplePixelBuffer(
+      buffer,
+      width,
+      height,
+      options.resampling ?? 'bilinear',
+      crop
+    );
+    const isResized =
+      width !== (crop?.width ?? buffer.width) ||
+      height !== (crop?.height ?? buffer.height);
+    if (options.sharpen && isResized) {
+      sharpenPixelBuffer(resized, options.sharpen);
+    }
+
+    onProgress?.({
+      phase: 'processing',
+      progress: 100,
+      message: 'Image prepared',
+    });
+
+    throwIfAborted(signal);
+    onProgress?.({
+      phase: 'encoding',
+      progress: 0,
+      message: `Encoding to 16-bit ${options.format.toUpperCase()}...`,
+    });
+
+    const blob =
+      options.format === 'tiff'
+        ? encodeTiff16(resized)
+        : await encodePng16(resized);
+
+    throwIfAborted(signal);
+    onProgress?.({
+      phase: 'complete',
+      progress: 100,
+      message: 'Conversion completed',
+    });
+
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      format: options.format,
+      width,
+      height,
+      size: blob.size,
+    };
+  } catch (error) {
+    throw toConversionError(error);
+  }
+}
@@ -0,0 +1,68 @@
+export * from './types';
+export * from './errors';
+export { LibheifDecoder, isHeifBuffer } from './decoder';
+export {
+  CanvasImageProcessor,
+  getTargetDimensions,
+  isLossyFormat,
+  type CropRect,
+  type TargetDimensions,
+} from './processor';
+export * from './options';
+export * from './file-name-template';
+export {
+  toConversionResult,
+  toFileProgress,
+  normalizeSettings,
+  withFileName,
+} from './adapters';
+export {
+  ConversionWorkerPool,
+  getDefaultConcurrency,
+  type WorkerPoolOptions,
+} from './worker-pool';
+export * from './retry';
+export {
+  HeifContainer,
+  parseHeifContainer,
+  listHeifImages,
+  extractExif,
+  getColourInfo,
+  listAuxiliaryImages,
+  findThumbnailItem,
+  APPLE_GAIN_MAP_AUX_TYPE,
+  type HeifColourInfo,
+  type HeifItem,
+  type HeifItemReference,
+  type HeifProperty,
+} from './heif-container';
+export * from './orientation';
+export {
+  resizePixelBuffer,
+  cropPixelBuffer,
+  hasTransparency,
+  fromImageData,
+} from './pixel-buffer';
+export {
+  resampleImageData,
+  resamplePixelBuffer,
+  sharpenImageData,
+  sharpenPixelBuffer,
+} from './resample';
+export { encodePng16, encodeGrayscalePng } from './png-encoder';
+export { encodeTiff8, encodeTiff16 } from './tiff-encoder';
+export { processPixelBuffer, wantsHighBitDepth } from './high-bit-depth';
+export {
+  findGainMapItem,
+  toneMapImageData,
+  toneMapPixelBuffer,
+  toUltraHdrGainMap,
+} from './gain-map';
+export {
+  canEmbedProfile,
+  convertImageDataToSrgb,
+  convertPixelBufferToSrgb,
+  getSrgbConversion,
+  type SrgbConversion,
+} from './color-management';
+export { convertHeic, type PipelineContext } from './pipeline';
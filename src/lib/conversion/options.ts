@@ -0,0 +1,126 @@
+import {
+  DEFAULT_CONVERSION_OPTIONS,
+  MIME_TYPES,
+  SUPPORTED_OUTPUT_FORMATS,
+} from '../constants';
+import {
+  ConversionSettings,
+  ConversionSettingsOverrides,
+} from '../../types/conversion';
+import { isLossyFormat } from './processor';
+import { AuxiliaryKind, ConversionOptions, ImageFormat } from './types';
+
+const AUXILIARY_FILE_SUFFIXES: Record<AuxiliaryKind, string> = {
+  depth: 'depth',
+  alpha: 'alpha',
+  matte: 'matte',
+  'gain-map': 'gainmap',
+};
+
+/**
+ * Drops overrides that were cleared back to the default, which the editor
+ * leaves as undefined keys; undefined when none are left
+ */
+export function compactOverrides(
+  overrides?: ConversionSettingsOverrides
+): ConversionSettingsOverrides | undefined {
+  const entries = Object.entries(overrides ?? {}).filter(
+    ([, value]) => value !== undefined
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * The global settings with one file's overrides applied. A cleared
+ * override falls back to the global value rather than replacing it with
+ * undefined.
+ */
+export function resolveFileSettings(
+  settings: ConversionSettings,
+  overrides?: ConversionSettingsOverrides
+): ConversionSettings {
+  const active = compactOverrides(overrides);
+  return active ? { ...settings, ...active } : settings;
+}
+
+export function settingsToOptions(
+  settings: ConversionSettings
+): ConversionOptions {
+  const format = settings.outputFormat;
+  // Format-specific choices are kept across a format change (or a per-file
+  // override) and simply don't apply to the other formats
+  const gainMap = settings.gainMap ?? DEFAULT_CONVERSION_OPTIONS.gainMap;
+
+  return {
+    ...DEFAULT_CONVERSION_OPTIONS,
+    format,
+    quality: settings.quality,
+    width: settings.resize?.width,
+    height: settings.resize?.height,
+    maintainAspectRatio:
+      settings.resize?.maintainAspectRatio ??
+      DEFAULT_CONVERSION_OPTIONS.maintainAspectRatio,
+    resizeMode: settings.resize?.mode,
+    gravity: settings.resize?.gravity,
+    scalePercent: settings.resize?.scalePercent,
+    neverUpscale: settings.resize?.neverUpscale,
+    resampling: settings.resampling,
+    sharpen: settings.sharpen,
+    metadata: settings.metadata ?? DEFAULT_CONVERSION_OPTIONS.metadata,
+    bitDepth:
+      format === 'png' || format === 'tiff' ? settings.bitDepth : undefined,
+    colorManagement:
+      settings.colorManagement ?? DEFAULT_CONVERSION_OPTIONS.colorManagement,
+    gainMap: gainMap === 'ultra-hdr' && format !== 'jpeg' ? 'ignore' : gainMap,
+    auxiliaryImages: settings.exportDepthMap ? ['depth'] : [],
+    ...getSizeLimit(settings),
+  };
+}
+
+// The limit is hidden in the settings panel for formats it can't apply to
+function getSizeLimit(
+  settings: ConversionSettings
+): Pick<ConversionOptions, 'maxFileSize' | 'downscaleToFit'> {
+  const format = settings.outputFormat;
+  if (
+    !settings.maxFileSizeKb ||
+    !isLossyFormat(format) ||
+    (settings.gainMap === 'ultra-hdr' && format === 'jpeg')
+  ) {
+    return {};
+  }
+  return {
+    maxFileSize: settings.maxFileSizeKb * 1024,
+    downscaleToFit: settings.downscaleToFit ?? false,
+  };
+}
+
+/**
+ * Swaps the extension, and numbers images taken from a multi-image HEIC
+ * (`IMG_0001_2.jpg`) so that siblings don't overwrite each other.
+ */
+export function getOutputFileName(
+  originalName: string,
+  format: ImageFormat,
+  imageIndex?: number
+): string {
+  const base = originalName.replace(/\.[^/.]+$/, '');
+  const suffix = imageIndex === undefined ? '' : `_${imageIndex + 1}`;
+  const extension =
+    SUPPORTED_OUTPUT_FORMATS.find(({ value }) => value === format)?.extension ??
+    `.${format}`;
+  return `${base}${suffix}${extension}`;
+}
+
+/** Names a companion file after its image: `IMG_0001_gainmap.png` */
+export function getAuxiliaryFileName(
+  outputFileName: string,
+  kind: AuxiliaryKind,
+  mimeType: string
+): string {
+  const base = outputFileName.replace(/\.[^/.]+$/, '');
+  const extension =
+    Object.entries(MIME_TYPES).find(([, type]) => type === mimeType)?.[0] ??
+    'bin';
+  return `${base}_${AUXILIARY_FILE_SUFFIXES[kind]}.${extension}`;
+}
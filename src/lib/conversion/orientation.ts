@@ -0,0 +1,165 @@
+import { HeifContainer } from './heif-container';
+import { PixelBuffer } from './types';
+
+/**
+ * A display transform: rotate clockwise by `rotation` degrees, then mirror
+ * left-to-right if `flip` is set. Every EXIF orientation and every HEIF
+ * irot/imir combination reduces to one of these eight.
+ */
+export interface ImageTransform {
+  rotation: 0 | 90 | 180 | 270;
+  flip: boolean;
+}
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotation: 0, flip: false };
+
+const EXIF_ORIENTATION_TRANSFORMS: Record<number, ImageTransform> = {
+  1: { rotation: 0, flip: false },
+  2: { rotation: 0, flip: true },
+  3: { rotation: 180, flip: false },
+  4: { rotation: 180, flip: true },
+  5: { rotation: 90, flip: true },
+  6: { rotation: 90, flip: false },
+  7: { rotation: 270, flip: true },
+  8: { rotation: 270, flip: false },
+};
+
+function normaliseRotation(degrees: number): ImageTransform['rotation'] {
+  return ((((degrees % 360) + 360) % 360) as ImageTransform['rotation']) || 0;
+}
+
+function rotate(transform: ImageTransform, clockwise: number): ImageTransform {
+  // Rotating a mirrored image turns the other way round
+  const rotation = transform.flip
+    ? transform.rotation - clockwise
+    : transform.rotation + clockwise;
+  return { rotation: normaliseRotation(rotation), flip: transform.flip };
+}
+
+function mirror(transform: ImageTransform): ImageTransform {
+  return { ...transform, flip: !transform.flip };
+}
+
+export function isIdentityTransform(transform: ImageTransform): boolean {
+  return transform.rotation === 0 && !transform.flip;
+}
+
+export function exifOrientationToTransform(
+  orientation: number | null
+): ImageTransform {
+  return (
+    (orientation && EXIF_ORIENTATION_TRANSFORMS[orientation]) ||
+    IDENTITY_TRANSFORM
+  );
+}
+
+/**
+ * Folds an item's irot/imir properties, in association order, into a single
+ * transform. Returns null when the item carries neither property.
+ */
+export function getHeifTransform(
+  container: HeifContainer,
+  itemId: number | null = container.primaryItemId
+): ImageTransform | null {
+  if (itemId === null) return null;
+
+  let transform: ImageTransform | null = null;
+  for (const property of container.getProperties(itemId)) {
+    if (property.type === 'irot') {
+      // irot angles are anti-clockwise
+      transform = rotate(transform ?? IDENTITY_TRANSFORM, 360 - property.angle);
+    } else if (property.type === 'imir') {
+      // axis 0 mirrors left-right; axis 1 top-bottom, i.e. rotate 180 + mirror
+      const base = transform ?? IDENTITY_TRANSFORM;
+      transform = mirror(property.axis === 0 ? base : rotate(base, 180));
+    }
+  }
+
+  return transform;
+}
+
+function getOutputSize(
+  width: number,
+  height: number,
+  transform: ImageTransform
+): { width: number; height: number } {
+  const swap = transform.rotation === 90 || transform.rotation === 270;
+  return swap ? { width: height, height: width } : { width, height };
+}
+
+/** Calls `copy` with source and target pixel indices for every pixel */
+function remapPixels(
+  width: number,
+  height: number,
+  transform: ImageTransform,
+  copy: (source: number, target: number) => void
+): void {
+  const outWidth = getOutputSize(width, height, transform).width;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let tx: number;
+      let ty: number;
+      switch (transform.rotation) {
+        case 90:
+          tx = height - 1 - y;
+          ty = x;
+          break;
+        case 180:
+          tx = width - 1 - x;
+          ty = height - 1 - y;
+          break;
+        case 270:
+          tx = y;
+          ty = width - 1 - x;
+          break;
+        default:
+          tx = x;
+          ty = y;
+      }
+      if (transform.flip) tx = outWidth - 1 - tx;
+      copy(y * width + x, ty * outWidth + tx);
+    }
+  }
+}
+
+/** Applies a transform to decoded pixels, returning a new ImageData */
+export function transformImageData(
+  imageData: ImageData,
+  transform: ImageTransform
+): ImageData {
+  if (isIdentityTransform(transform)) return imageData;
+
+  const { width, height } = imageData;
+  const size = getOutputSize(width, height, transform);
+  const output = new ImageData(size.width, size.height);
+
+  // One 32-bit word per RGBA pixel keeps the copy cheap
+  const source = new Uint32Array(imageData.data.buffer);
+  const target = new Uint32Array(output.data.buffer);
+  remapPixels(width, height, transform, (from, to) => {
+    target[to] = source[from];
+  });
+
+  return output;
+}
+
+/** High bit depth counterpart of `transformImageData` */
+export function transformPixelBuffer(
+  buffer: PixelBuffer,
+  transform: ImageTransform
+): PixelBuffer {
+  if (isIdentityTransform(transform)) return buffer;
+
+  const { width, height, data } = buffer;
+  const output = new Uint16Array(data.length);
+  remapPixels(width, height, transform, (from, to) => {
+    output.set(data.subarray(from * 4, from * 4 + 4), to * 4);
+  });
+
+  return {
+    ...buffer,
+    ...getOutputSize(width, height, transform),
+    data: output,
+  };
+}
@@ -0,0 +1,567 @@
+import { Logger } from '../logger';
+import {
+  createUltraHdrJpeg,
+  embedMetadata,
+  filterExif,
+  getAppleHdrHeadroom,
+  getExifOrientation,
+} from '../metadata';
+import {
+  canEmbedProfile,
+  convertImageDataToSrgb,
+  convertPixelBufferToSrgb,
+  getSrgbConversion,
+  SrgbConversion,
+} from './color-management';
+import { isCancellationError, throwIfAborted } from './errors';
+import {
+  findGainMapItem,
+  toneMapImageData,
+  toneMapPixelBuffer,
+  toUltraHdrGainMap,
+} from './gain-map';
+import { processPixelBuffer, wantsHighBitDepth } from './high-bit-depth';
+import {
+  extractExif,
+  findThumbnailItem,
+  getColourInfo,
+  HeifContainer,
+  listAuxiliaryImages,
+  parseHeifContainer,
+} from './heif-container';
+import {
+  exifOrientationToTransform,
+  getHeifTransform,
+  ImageTransform,
+  IDENTITY_TRANSFORM,
+  transformImageData,
+  transformPixelBuffer,
+} from './orientation';
+import { cropPixelBuffer, fromImageData } from './pixel-buffer';
+import { encodeGrayscalePng } from './png-encoder';
+import { getTargetDimensions } from './processor';
+import {
+  AuxiliaryKind,
+  AuxiliaryOutput,
+  ConversionOptions,
+  PhaseProgressCallback,
+  ConvertedImage,
+  HeicDecoder,
+  HeifAuxiliaryImageInfo,
+  ImageProcessor,
+  PixelBuffer,
+  RelativeRegion,
+} from './types';
+
+export interface PipelineContext {
+  decoder: HeicDecoder;
+  processor: ImageProcessor;
+  onProgress?: PhaseProgressCallback;
+  signal?: AbortSignal;
+}
+
+function readContainer(source: ArrayBuffer): HeifContainer | null {
+  try {
+    return parseHeifContainer(source);
+  } catch (error) {
+    Logger.warn('Could not parse HEIF container', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Works out what still has to happen to the decoded pixels. irot/imir are
+ * authoritative when present; EXIF Orientation is only consulted for files
+ * that carry no transform properties at all.
+ */
+function getPendingTransform(
+  container: HeifContainer | null,
+  itemId: number | null,
+  exif: Uint8Array | null,
+  decoder: HeicDecoder
+): ImageTransform {
+  const heifTransform = container ? getHeifTransform(container, itemId) : null;
+  if (heifTransform) {
+    return decoder.appliesTransformations ? IDENTITY_TRANSFORM : heifTransform;
+  }
+  return exifOrientationToTransform(getExifOrientation(exif));
+}
+
+interface ColourPlan {
+  conversion: SrgbConversion | null;
+  /** Profile to embed in the output instead of converting the pixels */
+  icc: Uint8Array | null;
+}
+
+/**
+ * Embedding leaves the pixels untouched, so it wins whenever it was asked for
+ * and the output format can carry a profile. Everything else becomes sRGB.
+ */
+function planColour(
+  container: HeifContainer | null,
+  itemId: number | null,
+  options: ConversionOptions
+): ColourPlan {
+  const colour = container ? getColourInfo(container, itemId) : null;
+  if (!colour) return { conversion: null, icc: null };
+
+  const mode = options.colorManagement ?? 'embed';
+  if (mode === 'embed' && colour.icc && canEmbedProfile(options.format)) {
+    return { conversion: null, icc: colour.icc };
+  }
+  return { conversion: getSrgbConversion(colour), icc: null };
+}
+
+/**
+ * A size limit covers the whole file, so the encoder is given the limit
+ * minus what copyMetadata adds afterwards. AVIF output carries no copied
+ * metadata.
+ */
+function reserveMetadataSpace(
+  exif: Uint8Array | null,
+  icc: Uint8Array | null,
+  options: ConversionOptions
+): ConversionOptions {
+  if (options.maxFileSize === undefined || options.format === 'avif') {
+    return options;
+  }
+
+  let filtered: Uint8Array | null = null;
+  try {
+    filtered = filterExif(exif, options.metadata ?? 'keep');
+  } catch {
+    // copyMetadata will skip the EXIF block as well
+  }
+  // Segment and chunk headers, rounded up; ICC splits into 64 KB segments
+  const overhead =
+    (filtered ? filtered.length + 32 : 0) +
+    (icc ? icc.length + 32 * Math.ceil(icc.length / 65000) : 0);
+
+  return {
+    ...options,
+    maxFileSize: Math.max(1, options.maxFileSize - overhead),
+  };
+}
+
+/** ICC profiles are colour data, not personal data: `strip` keeps them */
+async function copyMetadata(
+  exif: Uint8Array | null,
+  icc: Uint8Array | null,
+  result: ConvertedImage,
+  options: ConversionOptions
+): Promise<ConvertedImage> {
+  const mode = options.metadata ?? 'keep';
+
+  let blob: Blob;
+  try {
+    const filtered = filterExif(exif, mode);
+    if (!filtered && !icc) return result;
+    blob = await embedMetadata(result.blob, { exif: filtered, icc });
+  } catch (error) {
+    // Metadata is best effort: a quirky container must not fail the image
+    Logger.warn('Could not copy metadata', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return result;
+  }
+  if (blob === result.blob) return result;
+
+  URL.revokeObjectURL(result.url);
+  return {
+    ...result,
+    blob,
+    url: URL.createObjectURL(blob),
+    size: blob.size,
+  };
+}
+
+interface GainMap {
+  image: ImageData;
+  /** Null when the file lacks the maker note values the map depends on */
+  headroom: number | null;
+}
+
+/**
+ * The transform that lines an auxiliary image or thumbnail up with its base
+ * image before the pending transform. libheif applies each item's own
+ * irot/imir, and Apple only stores those on the primary, so the primary's
+ * are inherited when the dependent image has none.
+ */
+function getDependentTransform(
+  container: HeifContainer,
+  itemId: number | null,
+  dependentId: number,
+  decoder: HeicDecoder
+): ImageTransform {
+  const ownTransform = getHeifTransform(container, dependentId);
+  const baseTransform = getHeifTransform(container, itemId);
+  return decoder.appliesTransformations && !ownTransform && baseTransform
+    ? baseTransform
+    : IDENTITY_TRANSFORM;
+}
+
+/**
+ * Decodes the HDR gain map and lines it up with the oriented base image.
+ * Failures are logged and the gain map treated as absent.
+ */
+async function readGainMap(
+  container: HeifContainer,
+  itemId: number | null,
+  exif: Uint8Array | null,
+  transform: ImageTransform,
+  decoder: HeicDecoder,
+  signal?: AbortSignal
+): Promise<GainMap | null> {
+  const gainMapId = findGainMapItem(container, itemId);
+  if (gainMapId === null) return null;
+
+  try {
+    const decoded = await decoder.decode(
+      new Blob([container.exposeDependentImage(gainMapId)]),
+      { signal, itemId: gainMapId }
+    );
+    const inherited = getDependentTransform(
+      container,
+      itemId,
+      gainMapId,
+      decoder
+    );
+
+    return {
+      image: transformImageData(
+        transformImageData(decoded, inherited),
+        transform
+      ),
+      headroom: getAppleHdrHeadroom(exif),
+    };
+  } catch (error) {
+    if (isCancellationError(error)) throw error;
+    Logger.warn('Could not decode HDR gain map', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/** The cover crop of a `width`×`height` source, relative to its size */
+function getSourceRegion(
+  width: number,
+  height: number,
+  options: ConversionOptions
+): RelativeRegion | undefined {
+  const { crop } = getTargetDimensions(width, height, options);
+  return crop
+    ? {
+        x: crop.x / width,
+        y: crop.y / height,
+        width: crop.width / width,
+        height: crop.height / height,
+      }
+    : undefined;
+}
+
+/**
+ * `region` in pixels of a `width`×`height` image. Companion images are
+ * often a fraction of the base image's size, so the crop is rescaled.
+ */
+function toPixelRect(region: RelativeRegion, width: number, height: number) {
+  const x = Math.min(width - 1, Math.floor(region.x * width));
+  const y = Math.min(height - 1, Math.floor(region.y * height));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(region.width * width))),
+    height: Math.max(
+      1,
+      Math.min(height - y, Math.round(region.height * height))
+    ),
+  };
+}
+
+function cropImageData(image: ImageData, region: RelativeRegion): ImageData {
+  const { x, y, width, height } = toPixelRect(
+    region,
+    image.width,
+    image.height
+  );
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return new ImageData(data, width, height);
+}
+
+function cropToRegion(
+  buffer: PixelBuffer,
+  region: RelativeRegion | undefined
+): PixelBuffer {
+  return region
+    ? cropPixelBuffer(buffer, toPixelRect(region, buffer.width, buffer.height))
+    : buffer;
+}
+
+/**
+ * Decodes the requested auxiliary images (depth maps, mattes) at full
+ * precision and writes each as a greyscale PNG. One unreadable map doesn't
+ * stop the others or the main image.
+ */
+async function readAuxiliaryImages(
+  container: HeifContainer,
+  itemId: number | null,
+  options: ConversionOptions,
+  transform: ImageTransform,
+  sourceRegion: RelativeRegion | undefined,
+  decoder: HeicDecoder,
+  signal?: AbortSignal
+): Promise<AuxiliaryOutput[]> {
+  const wanted = options.auxiliaryImages ?? [];
+  const images = listAuxiliaryImages(container, itemId).filter(
+    (image): image is HeifAuxiliaryImageInfo & { type: AuxiliaryKind } =>
+      wanted.some((type) => type === image.type)
+  );
+  const outputs: AuxiliaryOutput[] = [];
+
+  for (const image of images) {
+    try {
+      const file = new Blob([container.exposeDependentImage(image.itemId)]);
+      const decodeOptions = { signal, itemId: image.itemId };
+      const pixels = decoder.decodePixels
+        ? await decoder.decodePixels(file, decodeOptions)
+        : fromImageData(await decoder.decode(file, decodeOptions));
+      const inherited = getDependentTransform(
+        container,
+        itemId,
+        image.itemId,
+        decoder
+      );
+      // Lined up with the output, cover crop included
+      const aligned = cropToRegion(
+        transformPixelBuffer(
+          transformPixelBuffer(pixels, inherited),
+          transform
+        ),
+        sourceRegion
+      );
+
+      outputs.push({
+        kind: image.type,
+        blob: await encodeGrayscalePng(aligned),
+      });
+    } catch (error) {
+      if (isCancellationError(error)) throw error;
+      Logger.warn('Could not extract auxiliary image', {
+        type: image.auxType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Exports the gain map or folds it into an Ultra HDR JPEG, as requested.
+ * The map gets the base image's cover crop, so both cover the same scene.
+ */
+async function attachGainMap(
+  result: ConvertedImage,
+  fullGainMap: GainMap,
+  options: ConversionOptions,
+  processor: ImageProcessor,
+  signal?: AbortSignal
+): Promise<ConvertedImage> {
+  const gainMap = result.sourceRegion
+    ? {
+        ...fullGainMap,
+        image: cropImageData(fullGainMap.image, result.sourceRegion),
+      }
+    : fullGainMap;
+
+  if (options.gainMap === 'export') {
+    const exported = await processor.process(
+      gainMap.image,
+      { format: 'png' },
+      undefined,
+      signal
+    );
+    URL.revokeObjectURL(exported.url);
+    return {
+      ...result,
+      auxiliary: [
+        ...(result.auxiliary ?? []),
+        { kind: 'gain-map', blob: exported.blob },
+      ],
+    };
+  }
+
+  if (options.gainMap !== 'ultra-hdr' || !gainMap.headroom) return result;
+
+  const { image, metadata } = toUltraHdrGainMap(
+    gainMap.image,
+    gainMap.headroom
+  );
+  const encoded = await processor.process(
+    image,
+    { format: 'jpeg', quality: options.quality },
+    undefined,
+    signal
+  );
+  URL.revokeObjectURL(encoded.url);
+
+  const bytes = createUltraHdrJpeg(
+    new Uint8Array(await result.blob.arrayBuffer()),
+    new Uint8Array(await encoded.blob.arrayBuffer()),
+    metadata
+  );
+  const blob = new Blob([bytes], { type: result.blob.type });
+  URL.revokeObjectURL(result.url);
+  return { ...result, blob, url: URL.createObjectURL(blob), size: blob.size };
+}
+
+interface DecodeTarget {
+  input: Blob;
+  itemId?: number;
+  /** Lines the decoded image up with the full image, before `transform` */
+  transform: ImageTransform;
+}
+
+/**
+ * The requested image, or its embedded thumbnail when a preview was asked
+ * for. Decoding the thumbnail is an order of magnitude faster than decoding
+ * the full image only to scale it down.
+ */
+function getDecodeTarget(
+  source: ArrayBuffer,
+  container: HeifContainer | null,
+  itemId: number | null,
+  options: ConversionOptions,
+  decoder: HeicDecoder
+): DecodeTarget {
+  const thumbnailId =
+    container && options.preferEmbeddedThumbnail
+      ? findThumbnailItem(container, itemId)
+      : null;
+  if (!container || thumbnailId === null) {
+    return {
+      input: new Blob([source]),
+      itemId: options.itemId,
+      transform: IDENTITY_TRANSFORM,
+    };
+  }
+
+  return {
+    input: new Blob([container.exposeDependentImage(thumbnailId)]),
+    itemId: thumbnailId,
+    transform: getDependentTransform(container, itemId, thumbnailId, decoder),
+  };
+}
+
+/**
+ * Full HEIC conversion: decode, orient, apply the gain map, manage colour,
+ * resize/encode, then carry metadata and companion files across. Shared by
+ * the conversion worker and the pool's main-thread fallback.
+ */
+export async function convertHeic(
+  source: ArrayBuffer,
+  options: ConversionOptions,
+  { decoder, processor, onProgress, signal }: PipelineContext
+): Promise<ConvertedImage> {
+  throwIfAborted(signal);
+  const container = readContainer(source);
+  const itemId = options.itemId ?? container?.primaryItemId ?? null;
+  const exif = container ? extractExif(container, itemId) : null;
+  const transform = getPendingTransform(container, itemId, exif, decoder);
+  const colour = planColour(container, itemId, options);
+  const target = getDecodeTarget(source, container, itemId, options, decoder);
+  const decodeOptions = { signal, itemId: target.itemId };
+
+  let result: ConvertedImage;
+  let sourceRegion: RelativeRegion | undefined;
+  onProgress?.({ phase: 'decoding', progress: 0 });
+
+  const gainMapMode = options.gainMap ?? 'ignore';
+  const gainMap =
+    container && gainMapMode !== 'ignore'
+      ? await readGainMap(container, itemId, exif, transform, decoder, signal)
+      : null;
+  if (gainMap && !gainMap.headroom && gainMapMode !== 'export') {
+    Logger.warn('HDR headroom unknown, keeping the SDR image as is');
+  }
+  const toneMap =
+    gainMapMode === 'tone-map' && gainMap?.headroom ? gainMap : null;
+
+  if (wantsHighBitDepth(options) && decoder.decodePixels) {
+    const pixels = await decoder.decodePixels(target.input, decodeOptions);
+    onProgress?.({ phase: 'decoding', progress: 100 });
+
+    const oriented = transformPixelBuffer(
+      transformPixelBuffer(pixels, target.transform),
+      transform
+    );
+    if (toneMap?.headroom) {
+      toneMapPixelBuffer(oriented, toneMap.image, toneMap.headroom);
+    }
+    if (colour.conversion) {
+      convertPixelBufferToSrgb(oriented, colour.conversion);
+    }
+    sourceRegion = getSourceRegion(oriented.width, oriented.height, options);
+    result = await processPixelBuffer(oriented, options, onProgress, signal);
+  } else {
+    if (wantsHighBitDepth(options)) {
+      Logger.warn('Decoder cannot keep full bit depth, writing 8-bit output');
+    }
+    const decoded = await decoder.decode(target.input, decodeOptions);
+    onProgress?.({ phase: 'decoding', progress: 100 });
+
+    const oriented = transformImageData(
+      transformImageData(decoded, target.transform),
+      transform
+    );
+    if (toneMap?.headroom) {
+      toneMapImageData(oriented, toneMap.image, toneMap.headroom);
+    }
+    if (colour.conversion) {
+      convertImageDataToSrgb(oriented, colour.conversion);
+    }
+    sourceRegion = getSourceRegion(oriented.width, oriented.height, options);
+    const encodeOptions = reserveMetadataSpace(exif, colour.icc, options);
+    result = await processor.process(
+      oriented,
+      wantsHighBitDepth(options)
+        ? { ...encodeOptions, bitDepth: 8 }
+        : encodeOptions,
+      onProgress,
+      signal
+    );
+  }
+  throwIfAborted(signal);
+
+  result = await copyMetadata(exif, colour.icc, result, options);
+  if (sourceRegion) result = { ...result, sourceRegion };
+  if (gainMap) {
+    result = await attachGainMap(result, gainMap, options, processor, signal);
+  }
+
+  if (container && options.auxiliaryImages?.length) {
+    const auxiliary = await readAuxiliaryImages(
+      container,
+      itemId,
+      options,
+      transform,
+      sourceRegion,
+      decoder,
+      signal
+    );
+    if (auxiliary.length > 0) {
+      result = {
+        ...result,
+        auxiliary: [...(result.auxiliary ?? []), ...auxiliary],
+      };
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,70 @@
+import type { CropRect } from './processor';
+import { resamplePixelBuffer } from './resample';
+import { PixelBuffer, ResamplingFilter } from './types';
+
+/**
+ * Resizes at full precision; bilinear unless another filter is asked for.
+ * See resample.ts.
+ */
+export function resizePixelBuffer(
+  buffer: PixelBuffer,
+  width: number,
+  height: number,
+  filter: ResamplingFilter = 'bilinear'
+): PixelBuffer {
+  return resamplePixelBuffer(buffer, width, height, filter);
+}
+
+export function hasTransparency(buffer: PixelBuffer): boolean {
+  const maxValue = 2 ** buffer.bitDepth - 1;
+  for (let i = 3; i < buffer.data.length; i += 4) {
+    if (buffer.data[i] < maxValue) return true;
+  }
+  return false;
+}
+
+/**
+ * Rescales samples to the full 0-65535 range, so a 10-bit white (1023)
+ * becomes 65535 rather than a dim 1023 in a 16-bit file.
+ */
+export function toFullRange16(buffer: PixelBuffer): Uint16Array {
+  if (buffer.bitDepth === 16) return buffer.data;
+
+  const scale = 65535 / (2 ** buffer.bitDepth - 1);
+  const output = new Uint16Array(buffer.data.length);
+  for (let i = 0; i < output.length; i++) {
+    output[i] = Math.round(buffer.data[i] * scale);
+  }
+  return output;
+}
+
+/** Wraps 8-bit canvas pixels so they can go through the PixelBuffer paths */
+export function fromImageData(imageData: ImageData): PixelBuffer {
+  return {
+    width: imageData.width,
+    height: imageData.height,
+    bitDepth: 8,
+    data: Uint16Array.from(imageData.data),
+  };
+}
+
+export function cropPixelBuffer(
+  buffer: PixelBuffer,
+  { x, y, width, height }: CropRect
+): PixelBuffer {
+  if (
+    x === 0 &&
+    y === 0 &&
+    width === buffer.width &&
+    height === buffer.height
+  ) {
+    return buffer;
+  }
+
+  const output = new Uint16Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * buffer.width + x) * 4;
+    output.set(buffer.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return { ...buffer, width, height, data: output };
+}
@@ -0,0 +1,94 @@
+import { MIME_TYPES } from '../constants';
+import { createPngChunk, deflate, PNG_SIGNATURE } from '../metadata/png';
+import { hasTransparency, toFullRange16 } from './pixel-buffer';
+import { PixelBuffer } from './types';
+
+const COLOR_TYPE_GRAYSCALE = 0;
+const COLOR_TYPE_RGB = 2;
+const COLOR_TYPE_RGBA = 6;
+
+async function writePng(
+  width: number,
+  height: number,
+  bitDepth: 8 | 16,
+  colorType: number,
+  raw: Uint8Array
+): Promise<Blob> {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  // Compression, filter and interlace methods stay 0
+
+  return new Blob(
+    [
+      new Uint8Array(PNG_SIGNATURE),
+      createPngChunk('IHDR', header),
+      createPngChunk('IDAT', await deflate(raw)),
+      createPngChunk('IEND', new Uint8Array(0)),
+    ],
+    { type: MIME_TYPES.png }
+  );
+}
+
+/**
+ * Writes a 16-bit-per-channel PNG. Canvas can only produce 8-bit PNGs, so
+ * this is the only way to keep 10-bit HEIC samples intact. The alpha channel
+ * is dropped when the image is fully opaque.
+ */
+export async function encodePng16(buffer: PixelBuffer): Promise<Blob> {
+  const { width, height } = buffer;
+  const withAlpha = hasTransparency(buffer);
+  const channels = withAlpha ? 4 : 3;
+  const samples = toFullRange16(buffer);
+
+  // Each scanline: filter type byte (0 = None), then big-endian samples
+  const rowBytes = 1 + width * channels * 2;
+  const raw = new Uint8Array(rowBytes * height);
+  const view = new DataView(raw.buffer);
+  for (let y = 0; y < height; y++) {
+    let offset = y * rowBytes + 1;
+    for (let x = 0; x < width; x++) {
+      const pixel = (y * width + x) * 4;
+      for (let c = 0; c < channels; c++) {
+        view.setUint16(offset, samples[pixel + c]);
+        offset += 2;
+      }
+    }
+  }
+
+  return writePng(
+    width,
+    height,
+    16,
+    withAlpha ? COLOR_TYPE_RGBA : COLOR_TYPE_RGB,
+    raw
+  );
+}
+
+/**
+ * Writes the first channel as a greyscale PNG, 8 or 16 bits deep to match
+ * the source. Depth maps and mattes decode to R = G = B, so nothing is lost.
+ */
+export async function encodeGrayscalePng(buffer: PixelBuffer): Promise<Blob> {
+  const { width, height } = buffer;
+  const bitDepth = buffer.bitDepth > 8 ? 16 : 8;
+  const samples = bitDepth === 16 ? toFullRange16(buffer) : buffer.data;
+  const bytesPerSample = bitDepth / 8;
+
+  const rowBytes = 1 + width * bytesPerSample;
+  const raw = new Uint8Array(rowBytes * height);
+  const view = new DataView(raw.buffer);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = y * rowBytes + 1 + x * bytesPerSample;
+      const value = samples[(y * width + x) * 4];
+      if (bitDepth === 16) view.setUint16(offset, value);
+      else raw[offset] = value;
+    }
+  }
+
+  return writePng(width, height, bitDepth, COLOR_TYPE_GRAYSCALE, raw);
+}
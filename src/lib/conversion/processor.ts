@@ -0,0 +1,600 @@
+import {
+  DEFAULT_CONVERSION_OPTIONS,
+  MIME_TYPES,
+  RESAMPLING_FILTERS,
+  SUPPORTED_OUTPUT_FORMATS,
+} from '../constants';
+import { formatFileSize } from '../utils';
+import { encodeAvif } from './avif-encoder';
+import { resampleImageData, sharpenImageData } from './resample';
+import { encodeTiff8 } from './tiff-encoder';
+import {
+  createConversionError,
+  throwIfAborted,
+  toConversionError,
+} from './errors';
+import {
+  ConversionOptions,
+  PhaseProgressCallback,
+  ConvertedImage,
+  CropGravity,
+  ImageFormat,
+  ImageProcessor,
+  ResizeMode,
+} from './types';
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+type AnyContext2D =
+  | OffscreenCanvasRenderingContext2D
+  | CanvasRenderingContext2D;
+
+// Formats with a quality setting, and so a size that can be searched for
+const LOSSY_FORMATS: ImageFormat[] = ['jpeg', 'webp', 'avif'];
+
+// Below this the artefacts cost more than downscaling would
+const MIN_SEARCH_QUALITY = 30;
+const MAX_DOWNSCALE_STEPS = 4;
+
+export function isLossyFormat(format: ImageFormat): boolean {
+  return LOSSY_FORMATS.includes(format);
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TargetDimensions {
+  width: number;
+  height: number;
+  /** Source region scaled into the output; the whole image when absent */
+  crop?: CropRect;
+}
+
+// Horizontal and vertical anchor of the kept region, 0 = left/top
+const GRAVITY_ANCHORS: Record<CropGravity, [number, number]> = {
+  center: [0.5, 0.5],
+  top: [0.5, 0],
+  bottom: [0.5, 1],
+  left: [0, 0.5],
+  right: [1, 0.5],
+  'top-left': [0, 0],
+  'top-right': [1, 0],
+  'bottom-left': [0, 1],
+  'bottom-right': [1, 1],
+};
+
+export function validateOptions(options: ConversionOptions): void {
+  if (!SUPPORTED_OUTPUT_FORMATS.some(({ value }) => value === options.format)) {
+    throw createConversionError(
+      'INVALID_OPTIONS',
+      `Unknown output format: ${options.format}`
+    );
+  }
+
+  if (
+    options.quality !== undefined &&
+    (!Number.isFinite(options.quality) ||
+      options.quality < 0 ||
+      options.quality > 100)
+  ) {
+    throw createConversionError(
+      'INVALID_OPTIONS',
+      'Quality must be a number between 0 and 100'
+    );
+  }
+
+  if (options.bitDepth !== undefined && options.bitDepth !== 8) {
+    if (options.bitDepth !== 16) {
+      throw createConversionError(
+        'INVALID_OPTIONS',
+        'Bit depth must be 8 or 16'
+      );
+    }
+    if (options.format !== 'png' && options.format !== 'tiff') {
+      throw createConversionError(
+        'INVALID_OPTIONS',
+        '16-bit output is only available for PNG and TIFF'
+      );
+    }
+  }
+
+  if (options.gainMap === 'ultra-hdr' && options.format !== 'jpeg') {
+    throw createConversionError(
+      'INVALID_OPTIONS',
+      'Ultra HDR output is only available for JPEG'
+    );
+  }
+
+  if (options.maxFileSize !== undefined) {
+    if (!Number.isFinite(options.maxFileSize) || options.maxFileSize <= 0) {
+      throw createConversionError(
+        'INVALID_OPTIONS',
+        'maxFileSize must be a positive number'
+      );
+    }
+    if (!isLossyFormat(options.format)) {
+      throw createConversionError(
+        'INVALID_OPTIONS',
+        'A maximum file size needs JPEG, WebP or AVIF output'
+      );
+    }
+    // The gain map is appended after encoding and has no quality to tune
+    if (options.gainMap === 'ultra-hdr') {
+      throw createConversionError(
+        'INVALID_OPTIONS',
+        'A maximum file size cannot be combined with Ultra HDR output'
+      );
+    }
+  }
+
+  for (const key of ['width', 'height', 'scalePercent'] as const) {
+    const value = options[key];
+    if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+      throw createConversionError(
+        'INVALID_OPTIONS',
+        `${key} must be a positive number`
+      );
+    }
+  }
+
+  if (
+    options.resampling !== undefined &&
+    !RESAMPLING_FILTERS.some(({ value }) => value === options.resampling)
+  ) {
+    throw createConversionError(
+      'INVALID_OPTIONS',
+      `Unknown resampling filter: ${options.resampling}`
+    );
+  }
+
+  if (
+    options.sharpen !== undefined &&
+    (!Number.isFinite(options.sharpen) ||
+      options.sharpen < 0 ||
+      options.sharpen > 100)
+  ) {
+    throw createConversionError(
+      'INVALID_OPTIONS',
+      'Sharpen must be a number between 0 and 100'
+    );
+  }
+
+  const mode = getResizeMode(options);
+  if (mode === 'cover' && !(options.width && options.height)) {
+    throw createConversionError(
+      'INVALID_OPTIONS',
+      'Cover resizing needs both a width and a height'
+    );
+  }
+  if (mode === 'scale' && !options.scalePercent) {
+    throw createConversionError(
+      'INVALID_OPTIONS',
+      'Scale resizing needs a scalePercent'
+    );
+  }
+}
+
+function getResizeMode(
+  options: Pick<ConversionOptions, 'resizeMode' | 'maintainAspectRatio'>
+): ResizeMode {
+  return (
+    options.resizeMode ??
+    (options.maintainAspectRatio === false ? 'stretch' : 'contain')
+  );
+}
+
+/**
+ * Resolves the output size, and for `cover` the source region to keep, from
+ * the resize options. Missing dimensions fall back to the source size.
+ */
+export function getTargetDimensions(
+  sourceWidth: number,
+  sourceHeight: number,
+  options: Pick<
+    ConversionOptions,
+    | 'width'
+    | 'height'
+    | 'maintainAspectRatio'
+    | 'resizeMode'
+    | 'gravity'
+    | 'scalePercent'
+    | 'neverUpscale'
+  >
+): TargetDimensions {
+  const { width, height, neverUpscale = false } = options;
+  const mode = getResizeMode(options);
+  const limit = (scale: number) => (neverUpscale ? Math.min(scale, 1) : scale);
+  const scaled = (scale: number) => ({
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale)),
+  });
+
+  if (mode === 'scale') {
+    return scaled(limit((options.scalePercent ?? 100) / 100));
+  }
+
+  if (!width && !height) {
+    return { width: sourceWidth, height: sourceHeight };
+  }
+
+  switch (mode) {
+    case 'stretch':
+      return {
+        width: Math.round(
+          neverUpscale
+            ? Math.min(width || sourceWidth, sourceWidth)
+            : width || sourceWidth
+        ),
+        height: Math.round(
+          neverUpscale
+            ? Math.min(height || sourceHeight, sourceHeight)
+            : height || sourceHeight
+        ),
+      };
+
+    case 'long-edge': {
+      const edge = (width || height) as number;
+      return scaled(limit(edge / Math.max(sourceWidth, sourceHeight)));
+    }
+
+    case 'cover': {
+      if (!width || !height) break;
+      // Without upscaling, a box larger than the source shrinks to fit it
+      const scale = Math.max(width / sourceWidth, height / sourceHeight);
+      const shrink = neverUpscale && scale > 1 ? scale : 1;
+      const cropWidth = Math.min(sourceWidth, Math.round(width / scale));
+      const cropHeight = Math.min(sourceHeight, Math.round(height / scale));
+      const [anchorX, anchorY] = GRAVITY_ANCHORS[options.gravity ?? 'center'];
+
+      return {
+        width: Math.max(1, Math.round(width / shrink)),
+        height: Math.max(1, Math.round(height / shrink)),
+        crop: {
+          x: Math.round((sourceWidth - cropWidth) * anchorX),
+          y: Math.round((sourceHeight - cropHeight) * anchorY),
+          width: cropWidth,
+          height: cropHeight,
+        },
+      };
+    }
+  }
+
+  return scaled(
+    limit(
+      Math.min(
+        width ? width / sourceWidth : Infinity,
+        height ? height / sourceHeight : Infinity
+      )
+    )
+  );
+}
+
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  throw createConversionError(
+    'CONVERSION_FAILED',
+    'No canvas implementation is available in this environment'
+  );
+}
+
+export function getContext2D(canvas: AnyCanvas): AnyContext2D {
+  const ctx = canvas.getContext('2d') as AnyContext2D | null;
+  if (!ctx) {
+    throw createConversionError(
+      'CONVERSION_FAILED',
+      'Failed to get canvas context'
+    );
+  }
+  return ctx;
+}
+
+export async function canvasToBlob(
+  canvas: AnyCanvas,
+  type: string,
+  quality?: number
+): Promise<Blob> {
+  const blob =
+    'convertToBlob' in canvas
+      ? await canvas.convertToBlob({ type, quality })
+      : await new Promise<Blob | null>((resolve) =>
+          canvas.toBlob(resolve, type, quality)
+        );
+
+  if (!blob) {
+    throw createConversionError('CONVERSION_FAILED', 'Failed to create blob');
+  }
+
+  return blob;
+}
+
+interface Encoded {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality?: number;
+}
+
+/** The (cropped) source image, rendered at whatever size the output needs */
+interface ScalableSource {
+  width: number;
+  height: number;
+  /** Either exactly `width`×`height`, or the source for drawImage to scale */
+  render(width: number, height: number): AnyCanvas;
+}
+
+function createScalableSource(
+  imageData: ImageData,
+  crop: CropRect | undefined,
+  { resampling }: ConversionOptions
+): ScalableSource {
+  const sourceWidth = crop?.width ?? imageData.width;
+  const sourceHeight = crop?.height ?? imageData.height;
+  let unscaled: AnyCanvas | null = null;
+
+  return {
+    width: sourceWidth,
+    height: sourceHeight,
+    render(width, height) {
+      if (resampling && (width !== sourceWidth || height !== sourceHeight)) {
+        const canvas = createCanvas(width, height);
+        getContext2D(canvas).putImageData(
+          resampleImageData(imageData, width, height, resampling, crop),
+          0,
+          0
+        );
+        return canvas;
+      }
+
+      if (!unscaled) {
+        // Pixels outside the canvas are dropped, which does the cropping
+        unscaled = createCanvas(sourceWidth, sourceHeight);
+        getContext2D(unscaled).putImageData(
+          imageData,
+          -(crop?.x ?? 0),
+          -(crop?.y ?? 0)
+        );
+      }
+      return unscaled;
+    },
+  };
+}
+
+function drawScaled(
+  source: ScalableSource,
+  width: number,
+  height: number,
+  options: ConversionOptions
+): { canvas: AnyCanvas; ctx: AnyContext2D } {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+
+  // JPEG has no alpha channel, so flatten onto a solid background
+  if (options.format === 'jpeg') {
+    ctx.fillStyle =
+      options.backgroundColor || DEFAULT_CONVERSION_OPTIONS.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source.render(width, height), 0, 0, width, height);
+
+  // Resizing softens edges; sharpening only makes sense to undo that
+  const isResized = width !== source.width || height !== source.height;
+  if (options.sharpen && isResized) {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    sharpenImageData(pixels, options.sharpen);
+    ctx.putImageData(pixels, 0, 0);
+  }
+  return { canvas, ctx };
+}
+
+async function encodeCanvas(
+  canvas: AnyCanvas,
+  ctx: AnyContext2D,
+  options: ConversionOptions,
+  quality: number
+): Promise<Blob> {
+  const { width, height } = canvas;
+  const mimeType = MIME_TYPES[options.format];
+
+  // Canvas can't encode AVIF or TIFF reliably, so those use our encoders
+  let blob: Blob;
+  if (options.format === 'avif') {
+    blob = await encodeAvif(ctx.getImageData(0, 0, width, height), quality);
+  } else if (options.format === 'tiff') {
+    blob = encodeTiff8(ctx.getImageData(0, 0, width, height));
+  } else {
+    blob = await canvasToBlob(
+      canvas,
+      mimeType,
+      options.format === 'png' ? undefined : quality / 100
+    );
+  }
+
+  // Browsers silently fall back to PNG for types they cannot encode
+  if (blob.type !== mimeType) {
+    throw createConversionError(
+      'UNSUPPORTED_FORMAT',
+      `This browser cannot encode ${options.format.toUpperCase()} images`
+    );
+  }
+  return blob;
+}
+
+/**
+ * Finds the highest quality, up to the requested one, whose output fits in
+ * `maxFileSize` by binary search. When even the lowest quality is too big
+ * and `downscaleToFit` allows it, the image is shrunk in proportion to the
+ * overshoot and searched again.
+ */
+async function encodeToFit(
+  source: ScalableSource,
+  width: number,
+  height: number,
+  options: ConversionOptions & { maxFileSize: number },
+  onProgress?: PhaseProgressCallback,
+  signal?: AbortSignal
+): Promise<Encoded> {
+  const { maxFileSize } = options;
+  const ceiling = options.quality ?? DEFAULT_CONVERSION_OPTIONS.quality;
+  let size = { width, height };
+  let encodes = 0;
+
+  for (let step = 0; ; step++) {
+    const { canvas, ctx } = drawScaled(
+      source,
+      size.width,
+      size.height,
+      options
+    );
+    const encode = async (quality: number) => {
+      throwIfAborted(signal);
+      onProgress?.({
+        phase: 'encoding',
+        progress: Math.min(90, encodes++ * 10),
+        message: `Trying quality ${quality} at ${size.width}×${size.height}...`,
+      });
+      return encodeCanvas(canvas, ctx, options, quality);
+    };
+
+    // Most images already fit at the requested quality
+    let best: Encoded | null = null;
+    let smallest = await encode(ceiling);
+    if (smallest.size <= maxFileSize) {
+      return { blob: smallest, ...size, quality: ceiling };
+    }
+
+    const floor = Math.min(MIN_SEARCH_QUALITY, ceiling);
+    let low = floor;
+    let high = ceiling - 1;
+    while (low <= high) {
+      const quality = Math.floor((low + high) / 2);
+      const blob = await encode(quality);
+      if (blob.size <= maxFileSize) {
+        best = { blob, ...size, quality };
+        low = quality + 1;
+      } else {
+        if (blob.size < smallest.size) smallest = blob;
+        high = quality - 1;
+      }
+    }
+    if (best) return best;
+
+    if (!options.downscaleToFit || step === MAX_DOWNSCALE_STEPS) {
+      // Deterministic, so a retry would only repeat the whole search
+      throw createConversionError(
+        'SIZE_LIMIT_UNREACHABLE',
+        `Couldn't get this image under ${formatFileSize(maxFileSize)}: ` +
+          `the smallest was ${formatFileSize(smallest.size)} at quality ${floor}` +
+          (step > 0 ? `, scaled down to ${size.width}×${size.height}` : '') +
+          (options.downscaleToFit
+            ? '. Try a larger maximum size.'
+            : '. Try a larger maximum size or allow downscaling.')
+      );
+    }
+
+    // File size grows roughly with pixel count
+    const scale = Math.min(0.9, Math.sqrt(maxFileSize / smallest.size));
+    size = {
+      width: Math.max(1, Math.round(size.width * scale)),
+      height: Math.max(1, Math.round(size.height * scale)),
+    };
+  }
+}
+
+export class CanvasImageProcessor implements ImageProcessor {
+  async process(
+    imageData: ImageData,
+    options: ConversionOptions,
+    onProgress?: PhaseProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ConvertedImage> {
+    validateOptions(options);
+
+    try {
+      throwIfAborted(signal);
+      onProgress?.({
+        phase: 'processing',
+        progress: 0,
+        message: 'Preparing image...',
+      });
+
+      const { width, height, crop } = getTargetDimensions(
+        imageData.width,
+        imageData.height,
+        options
+      );
+
+      const source = createScalableSource(imageData, crop, options);
+
+      onProgress?.({
+        phase: 'processing',
+        progress: 100,
+        message: 'Image prepared',
+      });
+
+      throwIfAborted(signal);
+      onProgress?.({
+        phase: 'encoding',
+        progress: 0,
+        message: `Encoding to ${options.format.toUpperCase()}...`,
+      });
+
+      let encoded: Encoded;
+      if (options.maxFileSize !== undefined) {
+        encoded = await encodeToFit(
+          source,
+          width,
+          height,
+          { ...options, maxFileSize: options.maxFileSize },
+          onProgress,
+          signal
+        );
+      } else {
+        const quality = options.quality ?? DEFAULT_CONVERSION_OPTIONS.quality;
+        const { canvas, ctx } = drawScaled(source, width, height, options);
+        encoded = {
+          blob: await encodeCanvas(canvas, ctx, options, quality),
+          width,
+          height,
+          quality: isLossyFormat(options.format) ? quality : undefined,
+        };
+      }
+
+      throwIfAborted(signal);
+
+      onProgress?.({
+        phase: 'complete',
+        progress: 100,
+        message: 'Conversion completed',
+      });
+
+      const { blob } = encoded;
+      return {
+        blob,
+        url: URL.createObjectURL(blob),
+        format: options.format,
+        width: encoded.width,
+        height: encoded.height,
+        size: blob.size,
+        quality: encoded.quality,
+      };
+    } catch (error) {
+      throw toConversionError(error);
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import type { CropRect } from './processor';
+import { PixelBuffer, ResamplingFilter } from './types';
+
+interface FilterTaps {
+  start: number;
+  weights: Float32Array;
+}
+
+type Samples = Uint8ClampedArray | Uint16Array;
+
+const LANCZOS_LOBES = 3;
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+// Kernels of the convolution filters, over distance in source pixels at 1:1
+const KERNELS: Record<
+  'bilinear' | 'lanczos3',
+  { radius: number; weight: (x: number) => number }
+> = {
+  bilinear: { radius: 1, weight: (x) => Math.max(0, 1 - Math.abs(x)) },
+  lanczos3: {
+    radius: LANCZOS_LOBES,
+    weight: (x) =>
+      Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0,
+  },
+};
+
+function normalise(weights: Float32Array): void {
+  let total = 0;
+  for (let w = 0; w < weights.length; w++) total += weights[w];
+  if (total !== 0) {
+    for (let w = 0; w < weights.length; w++) weights[w] /= total;
+  } else {
+    weights.fill(0);
+    weights[0] = 1;
+  }
+}
+
+/**
+ * Filter taps for one axis. When shrinking, convolution kernels widen with
+ * the scale factor so every source pixel contributes (no aliasing); `area`
+ * weighs each source pixel by how much of it the output pixel covers.
+ */
+function computeTaps(
+  sourceSize: number,
+  targetSize: number,
+  filter: ResamplingFilter
+): FilterTaps[] {
+  const scale = sourceSize / targetSize;
+
+  return Array.from({ length: targetSize }, (_, i) => {
+    if (filter === 'nearest') {
+      const start = Math.min(Math.floor((i + 0.5) * scale), sourceSize - 1);
+      return { start, weights: Float32Array.of(1) };
+    }
+
+    if (filter === 'area') {
+      const from = i * scale;
+      const to = Math.min((i + 1) * scale, sourceSize);
+      const start = Math.min(Math.floor(from), sourceSize - 1);
+      const end = Math.max(start + 1, Math.ceil(to));
+      const weights = new Float32Array(end - start);
+      for (let s = start; s < end; s++) {
+        weights[s - start] = Math.min(to, s + 1) - Math.max(from, s);
+      }
+      normalise(weights);
+      return { start, weights };
+    }
+
+    const { radius, weight } = KERNELS[filter];
+    const stretch = Math.max(1, scale);
+    const support = radius * stretch;
+    const center = (i + 0.5) * scale - 0.5;
+    const start = Math.max(0, Math.ceil(center - support));
+    const end = Math.min(sourceSize - 1, Math.floor(center + support));
+    const weights = new Float32Array(Math.max(1, end - start + 1));
+    for (let s = start; s <= end; s++) {
+      weights[s - start] = weight((s - center) / stretch);
+    }
+    normalise(weights);
+    return { start: Math.min(start, sourceSize - 1), weights };
+  });
+}
+
+/**
+ * Separable resize of interleaved RGBA. Colour is premultiplied by alpha
+ * while filtering, so transparent edges don't bleed dark fringes; that
+ * happens per tap rather than on a copy, since 48MP sources don't leave
+ * room for a float copy. Lanczos overshoot is clamped.
+ */
+function resampleSamples<T extends Samples>(
+  data: Samples,
+  sourceStride: number,
+  crop: CropRect,
+  maxValue: number,
+  width: number,
+  height: number,
+  filter: ResamplingFilter,
+  output: T
+): T {
+  const horizontal = new Float32Array(width * crop.height * 4);
+  const columnTaps = computeTaps(crop.width, width, filter);
+  for (let y = 0; y < crop.height; y++) {
+    const row = (crop.y + y) * sourceStride + crop.x;
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columnTaps[x];
+      const target = (y * width + x) * 4;
+      for (let t = 0; t < weights.length; t++) {
+        const source = (row + start + t) * 4;
+        const alpha = data[source + 3];
+        const weight = weights[t];
+        const colourWeight = (weight * alpha) / maxValue;
+        horizontal[target] += data[source] * colourWeight;
+        horizontal[target + 1] += data[source + 1] * colourWeight;
+        horizontal[target + 2] += data[source + 2] * colourWeight;
+        horizontal[target + 3] += alpha * weight;
+      }
+    }
+  }
+
+  const rowTaps = computeTaps(crop.height, height, filter);
+  const pixel = new Float32Array(4);
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rowTaps[y];
+    for (let x = 0; x < width; x++) {
+      pixel.fill(0);
+      for (let t = 0; t < weights.length; t++) {
+        const source = ((start + t) * width + x) * 4;
+        for (let c = 0; c < 4; c++) {
+          pixel[c] += horizontal[source + c] * weights[t];
+        }
+      }
+
+      const target = (y * width + x) * 4;
+      const alpha = pixel[3] / maxValue;
+      for (let c = 0; c < 3; c++) {
+        const value = alpha > 0 ? pixel[c] / alpha : 0;
+        output[target + c] = Math.min(maxValue, Math.max(0, Math.round(value)));
+      }
+      output[target + 3] = Math.min(
+        maxValue,
+        Math.max(0, Math.round(pixel[3]))
+      );
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Unsharp mask against a 3x3 Gaussian blur, in place. `amount` is the share
+ * of the detail (image minus blur) added back: 0.5 is a gentle lift for
+ * downscaled photos. Alpha is left alone.
+ */
+function sharpenSamples(
+  data: Samples,
+  width: number,
+  height: number,
+  maxValue: number,
+  amount: number
+): void {
+  const source = data.slice();
+  const at = (x: number, y: number, c: number) =>
+    source[
+      (Math.min(Math.max(y, 0), height - 1) * width +
+        Math.min(Math.max(x, 0), width - 1)) *
+        4 +
+        c
+    ];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const blurred =
+          (at(x - 1, y - 1, c) +
+            2 * at(x, y - 1, c) +
+            at(x + 1, y - 1, c) +
+            2 * at(x - 1, y, c) +
+            4 * source[i + c] +
+            2 * at(x + 1, y, c) +
+            at(x - 1, y + 1, c) +
+            2 * at(x, y + 1, c) +
+            at(x + 1, y + 1, c)) /
+          16;
+        const value = source[i + c] + amount * (source[i + c] - blurred);
+        data[i + c] = Math.min(maxValue, Math.max(0, Math.round(value)));
+      }
+    }
+  }
+}
+
+function fullFrame(width: number, height: number): CropRect {
+  return { x: 0, y: 0, width, height };
+}
+
+export function resampleImageData(
+  imageData: ImageData,
+  width: number,
+  height: number,
+  filter: ResamplingFilter,
+  crop: CropRect = fullFrame(imageData.width, imageData.height)
+): ImageData {
+  const output = new ImageData(width, height);
+  resampleSamples(
+    imageData.data,
+    imageData.width,
+    crop,
+    255,
+    width,
+    height,
+    filter,
+    output.data
+  );
+  return output;
+}
+
+export function resamplePixelBuffer(
+  buffer: PixelBuffer,
+  width: number,
+  height: number,
+  filter: ResamplingFilter,
+  crop: CropRect = fullFrame(buffer.width, buffer.height)
+): PixelBuffer {
+  const isWholeImage =
+    crop.width === buffer.width && crop.height === buffer.height;
+  if (isWholeImage && width === buffer.width && height === buffer.height) {
+    return buffer;
+  }
+
+  const data = resampleSamples(
+    buffer.data,
+    buffer.width,
+    crop,
+    2 ** buffer.bitDepth - 1,
+    width,
+    height,
+    filter,
+    new Uint16Array(width * height * 4)
+  );
+  return { width, height, bitDepth: buffer.bitDepth, data };
+}
+
+/** `amount` as for ConversionOptions.sharpen, 0-100 */
+export function sharpenImageData(imageData: ImageData, amount: number): void {
+  const { data, width, height } = imageData;
+  sharpenSamples(data, width, height, 255, amount / 100);
+}
+
+export function sharpenPixelBuffer(buffer: PixelBuffer, amount: number): void {
+  const { data, width, height, bitDepth } = buffer;
+  sharpenSamples(data, width, height, 2 ** bitDepth - 1, amount / 100);
+}
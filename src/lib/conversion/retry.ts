@@ -0,0 +1,40 @@
+import { ErrorCode, RETRY_POLICY, TRANSIENT_ERROR_CODES } from '../constants';
+import { createConversionError } from './errors';
+
+export function isTransientError(code: ErrorCode): boolean {
+  return TRANSIENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Exponential backoff with jitter: roughly 1s, 2s, 4s... for the default
+ * policy, capped at `MAX_DELAY_MS`.
+ */
+export function getRetryDelay(retry: number): number {
+  const exponential = RETRY_POLICY.BASE_DELAY_MS * 2 ** retry;
+  const jitter = Math.random() * RETRY_POLICY.BASE_DELAY_MS * 0.5;
+  return Math.min(exponential + jitter, RETRY_POLICY.MAX_DELAY_MS);
+}
+
+export function waitForRetry(
+  delay: number,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createConversionError('CANCELLED'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(createConversionError('CANCELLED'));
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,172 @@
+import { MIME_TYPES } from '../constants';
+import { hasTransparency, toFullRange16 } from './pixel-buffer';
+import { PixelBuffer } from './types';
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_X_RESOLUTION = 282;
+const TAG_Y_RESOLUTION = 283;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_RESOLUTION_UNIT = 296;
+const TAG_EXTRA_SAMPLES = 338;
+
+interface TiffPixels {
+  width: number;
+  height: number;
+  bitsPerSample: 8 | 16;
+  withAlpha: boolean;
+  /** Interleaved RGBA; alpha is skipped when `withAlpha` is false */
+  samples: Uint8ClampedArray | Uint16Array;
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: number[];
+}
+
+/**
+ * Baseline uncompressed RGB(A) TIFF, little-endian, one strip. Every reader
+ * handles it, which matters more for archives than file size.
+ */
+function encodeTiff({
+  width,
+  height,
+  bitsPerSample,
+  withAlpha,
+  samples,
+}: TiffPixels): Blob {
+  const channels = withAlpha ? 4 : 3;
+  const bytesPerSample = bitsPerSample / 8;
+  const pixelBytes = width * height * channels * bytesPerSample;
+
+  const entries: IfdEntry[] = [
+    { tag: TAG_IMAGE_WIDTH, type: TYPE_LONG, values: [width] },
+    { tag: TAG_IMAGE_LENGTH, type: TYPE_LONG, values: [height] },
+    {
+      tag: TAG_BITS_PER_SAMPLE,
+      type: TYPE_SHORT,
+      values: Array(channels).fill(bitsPerSample),
+    },
+    { tag: TAG_COMPRESSION, type: TYPE_SHORT, values: [1] },
+    { tag: TAG_PHOTOMETRIC, type: TYPE_SHORT, values: [2] }, // RGB
+    { tag: TAG_STRIP_OFFSETS, type: TYPE_LONG, values: [0] }, // patched below
+    { tag: TAG_SAMPLES_PER_PIXEL, type: TYPE_SHORT, values: [channels] },
+    { tag: TAG_ROWS_PER_STRIP, type: TYPE_LONG, values: [height] },
+    { tag: TAG_STRIP_BYTE_COUNTS, type: TYPE_LONG, values: [pixelBytes] },
+    { tag: TAG_X_RESOLUTION, type: TYPE_RATIONAL, values: [72, 1] },
+    { tag: TAG_Y_RESOLUTION, type: TYPE_RATIONAL, values: [72, 1] },
+    { tag: TAG_PLANAR_CONFIGURATION, type: TYPE_SHORT, values: [1] },
+    { tag: TAG_RESOLUTION_UNIT, type: TYPE_SHORT, values: [2] }, // inch
+  ];
+  if (withAlpha) {
+    // 2 = unassociated alpha, matching canvas and libheif output
+    entries.push({ tag: TAG_EXTRA_SAMPLES, type: TYPE_SHORT, values: [2] });
+  }
+
+  const valueSize = (entry: IfdEntry) =>
+    entry.type === TYPE_RATIONAL
+      ? 8
+      : entry.values.length * (entry.type === TYPE_SHORT ? 2 : 4);
+
+  // Layout: header, IFD, out-of-line values, pixel data
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let valueOffset = ifdOffset + ifdSize;
+  const outOfLine = entries.map((entry) => {
+    if (valueSize(entry) <= 4) return 0;
+    const offset = valueOffset;
+    valueOffset += valueSize(entry);
+    return offset;
+  });
+  const dataOffset = valueOffset + (valueOffset % 2);
+  entries.find((entry) => entry.tag === TAG_STRIP_OFFSETS)!.values = [
+    dataOffset,
+  ];
+
+  const output = new Uint8Array(dataOffset + pixelBytes);
+  const view = new DataView(output.buffer);
+  view.setUint16(0, 0x4949); // "II", little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+  view.setUint16(ifdOffset, entries.length, true);
+
+  const writeValues = (entry: IfdEntry, offset: number) => {
+    entry.values.forEach((value, i) => {
+      if (entry.type === TYPE_SHORT)
+        view.setUint16(offset + i * 2, value, true);
+      else view.setUint32(offset + i * 4, value, true);
+    });
+  };
+
+  entries.forEach((entry, index) => {
+    const offset = ifdOffset + 2 + index * 12;
+    view.setUint16(offset, entry.tag, true);
+    view.setUint16(offset + 2, entry.type, true);
+    view.setUint32(
+      offset + 4,
+      entry.type === TYPE_RATIONAL ? 1 : entry.values.length,
+      true
+    );
+    if (outOfLine[index]) {
+      view.setUint32(offset + 8, outOfLine[index], true);
+      writeValues(entry, outOfLine[index]);
+    } else {
+      writeValues(entry, offset + 8);
+    }
+  });
+  // Next-IFD pointer stays 0: single image
+
+  let offset = dataOffset;
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    for (let c = 0; c < channels; c++) {
+      const value = samples[pixel * 4 + c];
+      if (bitsPerSample === 16) {
+        view.setUint16(offset, value, true);
+      } else {
+        output[offset] = value;
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([output], { type: MIME_TYPES.tiff });
+}
+
+function isImageDataOpaque(imageData: ImageData): boolean {
+  for (let i = 3; i < imageData.data.length; i += 4) {
+    if (imageData.data[i] < 255) return false;
+  }
+  return true;
+}
+
+export function encodeTiff8(imageData: ImageData): Blob {
+  return encodeTiff({
+    width: imageData.width,
+    height: imageData.height,
+    bitsPerSample: 8,
+    withAlpha: !isImageDataOpaque(imageData),
+    samples: imageData.data,
+  });
+}
+
+export function encodeTiff16(buffer: PixelBuffer): Blob {
+  return encodeTiff({
+    width: buffer.width,
+    height: buffer.height,
+    bitsPerSample: 16,
+    withAlpha: hasTransparency(buffer),
+    samples: toFullRange16(buffer),
+  });
+}
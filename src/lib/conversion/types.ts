@@ -1,43 +1,199 @@
-export type ImageFormat = 'jpeg' | 'png' | 'webp';
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'tiff';
+
+/** What happens to the source EXIF block when writing the output file */
+export type MetadataMode = 'keep' | 'keep-without-gps' | 'strip';
+
+/**
+ * How wide-gamut sources (Display P3 on iPhones) are handled: `embed` copies
+ * the source ICC profile into formats that can carry one and converts the
+ * rest, `srgb` always converts the pixels to sRGB.
+ */
+export type ColorManagementMode = 'embed' | 'srgb';
+
+/**
+ * What to do with the HDR gain map of Apple photos: drop it (the primary
+ * image is already the SDR rendition), tone-map the HDR highlights into SDR,
+ * export the map as a separate file, or write an Ultra HDR JPEG.
+ */
+export type GainMapMode = 'ignore' | 'tone-map' | 'export' | 'ultra-hdr';
+
+/**
+ * How `width` and `height` are applied. `contain` fits the image inside the
+ * box, `cover` fills the box and crops the overflow at `gravity`, `stretch`
+ * ignores the aspect ratio, `long-edge` scales the longer side to `width`
+ * (or `height`), and `scale` resizes by `scalePercent`.
+ */
+export type ResizeMode =
+  | 'contain'
+  | 'cover'
+  | 'stretch'
+  | 'long-edge'
+  | 'scale';
+
+/** The part of the image `cover` keeps when cropping */
+export type CropGravity =
+  | 'center'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+/**
+ * Resampling filter for resizing. `area` averages every covered source
+ * pixel, `lanczos3` keeps the most detail when downscaling photos.
+ */
+export type ResamplingFilter = 'nearest' | 'bilinear' | 'area' | 'lanczos3';
 
 export interface ConversionOptions {
   format: ImageFormat;
   quality?: number; // 0-100, applicable for JPEG and WebP
   width?: number;
   height?: number;
-  maintainAspectRatio?: boolean;
+  maintainAspectRatio?: boolean; // false selects 'stretch' when no resizeMode
+  resizeMode?: ResizeMode;
+  gravity?: CropGravity; // Defaults to 'center'
+  scalePercent?: number; // For 'scale'
+  neverUpscale?: boolean; // Cap every mode at the source size
+  /** Resize in JS with this filter instead of the browser's canvas scaling */
+  resampling?: ResamplingFilter;
+  sharpen?: number; // 0-100 unsharp-mask strength applied after resizing
   backgroundColor?: string; // For transparent images converted to JPEG
+  metadata?: MetadataMode; // EXIF handling, applies to JPEG and WebP
+  itemId?: number; // Top-level HEIF image to convert, the primary by default
+  bitDepth?: 8 | 16; // 16 keeps full decoder precision, PNG and TIFF only
+  colorManagement?: ColorManagementMode;
+  gainMap?: GainMapMode; // 'ultra-hdr' requires JPEG output
+  /** Auxiliary images to write as greyscale PNGs next to the output */
+  auxiliaryImages?: ('depth' | 'alpha' | 'matte')[];
+  /** Decode the embedded `thmb` preview instead, when the file has one */
+  preferEmbeddedThumbnail?: boolean;
+  /**
+   * Upper bound on the output size in bytes, JPEG/WebP/AVIF only. Quality
+   * is searched downwards from `quality` until the file fits.
+   */
+  maxFileSize?: number;
+  downscaleToFit?: boolean; // Shrink the image when no quality fits
 }
 
-export interface ConversionResult {
+/**
+ * Interleaved RGBA samples at the decoder's native precision, used instead
+ * of `ImageData` wherever 8 bits per channel would lose tonal detail.
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  bitDepth: number; // Significant bits per sample, e.g. 10 for iPhone HEIC
+  data: Uint16Array;
+}
+
+/** Role of an auxiliary image, from its `auxC` type URN */
+export type AuxiliaryImageType =
+  | 'depth'
+  | 'alpha'
+  | 'matte'
+  | 'gain-map'
+  | 'other';
+
+export type AuxiliaryKind = Exclude<AuxiliaryImageType, 'other'>;
+
+/** A file written alongside the converted image, such as an exported map */
+export interface AuxiliaryOutput {
+  kind: AuxiliaryKind;
+  blob: Blob;
+}
+
+/** A region as fractions (0-1) of an image's width and height */
+export interface RelativeRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * What the engine hands back for one image. The queue's view of a finished
+ * file is ConversionResult in types/conversion, built by toConversionResult.
+ */
+export interface ConvertedImage {
   blob: Blob;
   url: string;
   format: ImageFormat;
   width: number;
   height: number;
   size: number;
+  quality?: number; // Quality the lossy formats were encoded at
+  /** Part of the oriented source kept by a cover crop */
+  sourceRegion?: RelativeRegion;
+  auxiliary?: AuxiliaryOutput[];
 }
 
 export interface ConversionError {
   code:
     | 'UNSUPPORTED_FORMAT'
     | 'CONVERSION_FAILED'
+    | 'WORKER_CRASHED'
+    | 'OUT_OF_MEMORY'
+    | 'SIZE_LIMIT_UNREACHABLE'
     | 'FILE_TOO_LARGE'
-    | 'INVALID_OPTIONS';
+    | 'INVALID_OPTIONS'
+    | 'CANCELLED';
   message: string;
   details?: unknown;
 }
 
-export interface ConversionProgress {
+/** Engine progress within one phase; see toFileProgress for the queue's */
+export interface PhaseProgress {
   phase: 'reading' | 'decoding' | 'processing' | 'encoding' | 'complete';
   progress: number; // 0-100
   message?: string;
 }
 
-export type ConversionProgressCallback = (progress: ConversionProgress) => void;
+export type PhaseProgressCallback = (progress: PhaseProgress) => void;
+
+/** An auxiliary image (depth map, matte...) attached to a top-level image */
+export interface HeifAuxiliaryImageInfo {
+  itemId: number;
+  type: AuxiliaryImageType;
+  /** The raw `auxC` URN, for types we don't classify */
+  auxType: string;
+  width: number;
+  height: number;
+}
+
+/** A top-level image inside a HEIF container */
+export interface HeifImageInfo {
+  itemId: number;
+  index: number;
+  width: number;
+  height: number;
+  isPrimary: boolean;
+}
+
+export interface DecodeOptions {
+  signal?: AbortSignal;
+  /** Which top-level image to decode; the primary image when omitted */
+  itemId?: number;
+}
 
 export interface HeicDecoder {
-  decode(file: File | Blob): Promise<ImageData>;
+  /** True when decoded pixels already have HEIF irot/imir applied */
+  readonly appliesTransformations?: boolean;
+  decode(file: File | Blob, options?: DecodeOptions): Promise<ImageData>;
+  /** Decodes without reducing samples to 8 bits */
+  decodePixels?(
+    file: File | Blob,
+    options?: DecodeOptions
+  ): Promise<PixelBuffer>;
+  listImages(file: File | Blob): Promise<HeifImageInfo[]>;
+  /** Auxiliary images of `itemId`, the primary image by default */
+  listAuxiliaryImages(
+    file: File | Blob,
+    itemId?: number
+  ): Promise<HeifAuxiliaryImageInfo[]>;
   isSupported(): boolean;
 }
 
@@ -45,6 +201,7 @@ export interface ImageProcessor {
   process(
     imageData: ImageData,
     options: ConversionOptions,
-    onProgress?: ConversionProgressCallback
-  ): Promise<ConversionResult>;
+    onProgress?: PhaseProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ConvertedImage>;
 }
@@ -0,0 +1,339 @@
+import { Logger } from '../logger';
+import { LibheifDecoder } from './decoder';
+import {
+  createConversionError,
+  HeicConversionError,
+  throwIfAborted,
+} from './errors';
+import { convertHeic } from './pipeline';
+import { CanvasImageProcessor } from './processor';
+import {
+  AuxiliaryKind,
+  ConversionError,
+  ConversionOptions,
+  PhaseProgress,
+  PhaseProgressCallback,
+  ConvertedImage,
+  ImageFormat,
+  RelativeRegion,
+} from './types';
+
+export type WorkerRequest = {
+  type: 'convert';
+  taskId: string;
+  buffer: ArrayBuffer;
+  options: ConversionOptions;
+};
+
+export type WorkerResponse =
+  | ({ type: 'progress'; taskId: string } & PhaseProgress)
+  | {
+      type: 'result';
+      taskId: string;
+      buffer: ArrayBuffer;
+      mimeType: string;
+      format: ImageFormat;
+      width: number;
+      height: number;
+      quality?: number;
+      sourceRegion?: RelativeRegion;
+      auxiliary: {
+        kind: AuxiliaryKind;
+        buffer: ArrayBuffer;
+        mimeType: string;
+      }[];
+    }
+  | { type: 'error'; taskId: string; error: ConversionError };
+
+export interface WorkerPoolOptions {
+  concurrency?: number;
+  createWorker?: () => Worker;
+}
+
+interface PoolTask {
+  id: string;
+  file: File | Blob;
+  options: ConversionOptions;
+  onProgress?: PhaseProgressCallback;
+  signal?: AbortSignal;
+  resolve: (result: ConvertedImage) => void;
+  reject: (error: HeicConversionError) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PoolTask | null;
+}
+
+// Used where the core count isn't known, including the server render
+export const FALLBACK_CONCURRENCY = 4;
+
+export function getDefaultConcurrency(): number {
+  if (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) {
+    return navigator.hardwareConcurrency;
+  }
+  return FALLBACK_CONCURRENCY;
+}
+
+function createConversionWorker(): Worker {
+  return new Worker(
+    new URL('../../workers/conversion.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+}
+
+let taskCounter = 0;
+
+/**
+ * Runs decode + encode in dedicated workers, at most `concurrency` files at a
+ * time. Input bytes are transferred to the worker and the encoded output is
+ * transferred back, so large batches never copy pixel data on the main thread.
+ * Falls back to converting on the main thread where Web Workers are missing.
+ */
+export class ConversionWorkerPool {
+  private concurrency: number;
+  private createWorker: () => Worker;
+  private workers: PoolWorker[] = [];
+  private queue: PoolTask[] = [];
+  private fallbackDecoder: LibheifDecoder | null = null;
+  private fallbackProcessor: CanvasImageProcessor | null = null;
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.concurrency = Math.max(
+      1,
+      options.concurrency ?? getDefaultConcurrency()
+    );
+    this.createWorker = options.createWorker ?? createConversionWorker;
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+
+    // Retire idle workers above the new limit; busy ones finish first
+    while (this.workers.length > this.concurrency) {
+      const idle = this.workers.find((entry) => !entry.task);
+      if (!idle) break;
+      this.removeWorker(idle);
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Queues a conversion. Aborting `signal` drops a queued task, or terminates
+   * the worker running it; either way the promise rejects with `CANCELLED`.
+   */
+  convert(
+    file: File | Blob,
+    options: ConversionOptions,
+    onProgress?: PhaseProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ConvertedImage> {
+    if (!ConversionWorkerPool.isSupported()) {
+      return this.convertOnMainThread(file, options, onProgress, signal);
+    }
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createConversionError('CANCELLED'));
+        return;
+      }
+
+      const task: PoolTask = {
+        id: `task-${++taskCounter}`,
+        file,
+        options,
+        onProgress,
+        signal,
+        resolve,
+        reject,
+      };
+
+      signal?.addEventListener('abort', () => this.cancelTask(task), {
+        once: true,
+      });
+
+      this.queue.push(task);
+      this.drain();
+    });
+  }
+
+  terminate(): void {
+    const error = createConversionError(
+      'CONVERSION_FAILED',
+      'Conversion pool was terminated'
+    );
+
+    this.queue.splice(0).forEach((task) => task.reject(error));
+    [...this.workers].forEach((entry) => {
+      entry.task?.reject(error);
+      this.removeWorker(entry);
+    });
+  }
+
+  private cancelTask(task: PoolTask): void {
+    const error = createConversionError('CANCELLED');
+    const queuedIndex = this.queue.indexOf(task);
+
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+      task.reject(error);
+      return;
+    }
+
+    // libheif decodes synchronously, so a running task can only be stopped by
+    // replacing its worker
+    const entry = this.workers.find((candidate) => candidate.task === task);
+    if (entry) {
+      this.removeWorker(entry);
+      task.reject(error);
+      this.drain();
+    }
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const entry = this.acquireWorker();
+      if (!entry) return;
+      this.runTask(entry, this.queue.shift()!);
+    }
+  }
+
+  private acquireWorker(): PoolWorker | null {
+    const idle = this.workers.find((entry) => !entry.task);
+    if (idle) return idle;
+    if (this.workers.length >= this.concurrency) return null;
+
+    const entry: PoolWorker = { worker: this.createWorker(), task: null };
+    entry.worker.onmessage = (event: MessageEvent<WorkerResponse>) =>
+      this.handleMessage(entry, event.data);
+    entry.worker.onerror = (event) => this.handleCrash(entry, event);
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private async runTask(entry: PoolWorker, task: PoolTask): Promise<void> {
+    entry.task = task;
+
+    try {
+      task.onProgress?.({
+        phase: 'reading',
+        progress: 0,
+        message: 'Reading file...',
+      });
+      const buffer = await task.file.arrayBuffer();
+      if (entry.task !== task) return;
+
+      const request: WorkerRequest = {
+        type: 'convert',
+        taskId: task.id,
+        buffer,
+        options: task.options,
+      };
+      entry.worker.postMessage(request, [buffer]);
+    } catch (error) {
+      this.finishTask(entry);
+      task.reject(
+        createConversionError('CONVERSION_FAILED', 'Failed to read file', error)
+      );
+    }
+  }
+
+  private handleMessage(entry: PoolWorker, message: WorkerResponse): void {
+    const task = entry.task;
+    if (!task || task.id !== message.taskId) return;
+
+    switch (message.type) {
+      case 'progress': {
+        const { phase, progress, message: text } = message;
+        task.onProgress?.({ phase, progress, message: text });
+        break;
+      }
+      case 'result': {
+        const blob = new Blob([message.buffer], { type: message.mimeType });
+        this.finishTask(entry);
+        task.resolve({
+          blob,
+          url: URL.createObjectURL(blob),
+          format: message.format,
+          width: message.width,
+          height: message.height,
+          size: blob.size,
+          quality: message.quality,
+          sourceRegion: message.sourceRegion,
+          auxiliary: message.auxiliary.map(({ kind, buffer, mimeType }) => ({
+            kind,
+            blob: new Blob([buffer], { type: mimeType }),
+          })),
+        });
+        break;
+      }
+      case 'error':
+        this.finishTask(entry);
+        task.reject(
+          new HeicConversionError(
+            message.error.code,
+            message.error.message,
+            message.error.details
+          )
+        );
+        break;
+    }
+  }
+
+  private handleCrash(entry: PoolWorker, event: ErrorEvent): void {
+    Logger.error('Conversion worker crashed', { message: event.message });
+
+    const task = entry.task;
+    this.removeWorker(entry);
+    task?.reject(
+      createConversionError(
+        'WORKER_CRASHED',
+        event.message || 'Conversion worker crashed'
+      )
+    );
+    this.drain();
+  }
+
+  private finishTask(entry: PoolWorker): void {
+    entry.task = null;
+
+    if (this.workers.length > this.concurrency) {
+      this.removeWorker(entry);
+    }
+
+    this.drain();
+  }
+
+  private removeWorker(entry: PoolWorker): void {
+    entry.task = null;
+    entry.worker.terminate();
+    this.workers = this.workers.filter((candidate) => candidate !== entry);
+  }
+
+  private async convertOnMainThread(
+    file: File | Blob,
+    options: ConversionOptions,
+    onProgress?: PhaseProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ConvertedImage> {
+    this.fallbackDecoder ??= new LibheifDecoder();
+    this.fallbackProcessor ??= new CanvasImageProcessor();
+
+    throwIfAborted(signal);
+    return convertHeic(await file.arrayBuffer(), options, {
+      decoder: this.fallbackDecoder,
+      processor: this.fallbackProcessor,
+      onProgress,
+      signal,
+    });
+  }
+}
@@ -0,0 +1,7 @@
+export {
+  ensureWritePermission,
+  isDirectoryOutputSupported,
+  pickOutputDirectory,
+  saveToDirectory,
+} from './output-directory';
+export * from './types';
@@ -0,0 +1,113 @@
+import { ConflictPolicy, SavedFile } from './types';
+
+const PICKER_ID = 'heic-converter-output';
+
+export function isDirectoryOutputSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.showDirectoryPicker === 'function'
+  );
+}
+
+/** Asks for a folder to write into; null when the user closes the picker */
+export async function pickOutputDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  if (!isDirectoryOutputSupported()) return null;
+
+  try {
+    return await window.showDirectoryPicker!({
+      id: PICKER_ID,
+      mode: 'readwrite',
+      startIn: 'pictures',
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks, and if needed asks for, write access to `directory`. Browsers
+ * only show the prompt during a user gesture such as a click, and may
+ * revoke access between visits.
+ */
+export async function ensureWritePermission(
+  directory: FileSystemDirectoryHandle
+): Promise<boolean> {
+  // Browsers without the permission methods grant access with the picker
+  if (!directory.queryPermission || !directory.requestPermission) return true;
+
+  const descriptor = { mode: 'readwrite' } as const;
+  if ((await directory.queryPermission(descriptor)) === 'granted') return true;
+  return (await directory.requestPermission(descriptor)) === 'granted';
+}
+
+async function fileExists(
+  directory: FileSystemDirectoryHandle,
+  fileName: string
+): Promise<boolean> {
+  try {
+    await directory.getFileHandle(fileName);
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') {
+      return false;
+    }
+    // A folder of the same name can't be overwritten either
+    if (error instanceof DOMException && error.name === 'TypeMismatchError') {
+      return true;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Numbers the name the way ZIP downloads do, `photo (1).jpg`, until it is
+ * free in `directory`.
+ */
+async function findFreeName(
+  directory: FileSystemDirectoryHandle,
+  fileName: string
+): Promise<string> {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+
+  let candidate = fileName;
+  for (let n = 1; await fileExists(directory, candidate); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  return candidate;
+}
+
+/**
+ * Writes `blob` into `directory` as `fileName`, applying `policy` when the
+ * name is taken. Not safe to call concurrently for the same directory with
+ * the rename policy, as two writes can settle on the same free name.
+ */
+export async function saveToDirectory(
+  directory: FileSystemDirectoryHandle,
+  fileName: string,
+  blob: Blob,
+  policy: ConflictPolicy
+): Promise<SavedFile> {
+  let target = fileName;
+  if (policy !== 'overwrite' && (await fileExists(directory, fileName))) {
+    if (policy === 'skip') return { fileName, status: 'skipped' };
+    target = await findFreeName(directory, fileName);
+  }
+
+  const handle = await directory.getFileHandle(target, { create: true });
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(blob);
+    await writable.close();
+  } catch (error) {
+    // Aborting discards the partial write instead of leaving a broken file
+    await writable.abort().catch(() => undefined);
+    throw error;
+  }
+
+  return { fileName: target, status: 'written' };
+}
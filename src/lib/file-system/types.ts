@@ -0,0 +1,8 @@
+/** What to do when the output folder already has a file of the same name */
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rename';
+
+export interface SavedFile {
+  /** The name written, which differs from the requested one after a rename */
+  fileName: string;
+  status: 'written' | 'skipped';
+}
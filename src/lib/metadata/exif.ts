@@ -0,0 +1,346 @@
+/**
+ * In-place edits of a TIFF/Exif block. We never re-serialise the structure:
+ * offsets inside maker notes are notoriously fragile, so edits only ever
+ * touch the bytes they change.
+ */
+
+import { MetadataMode } from '../conversion/types';
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_IFD_POINTER = 0x8825;
+const TAG_MAKER_NOTE = 0x927c;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8, 4];
+
+export interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Offset of the 12-byte entry itself */
+  entryOffset: number;
+  /** Offset of the value, inline in the entry when it fits in 4 bytes */
+  valueOffset: number;
+}
+
+export class TiffView {
+  readonly view: DataView;
+  readonly littleEndian: boolean;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    const order = this.view.getUint16(0);
+    if (order !== 0x4949 && order !== 0x4d4d) {
+      throw new Error('Invalid TIFF byte order marker');
+    }
+    this.littleEndian = order === 0x4949;
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  setU16(offset: number, value: number): void {
+    this.view.setUint16(offset, value, this.littleEndian);
+  }
+
+  setU32(offset: number, value: number): void {
+    this.view.setUint32(offset, value, this.littleEndian);
+  }
+
+  get firstIfdOffset(): number {
+    return this.u32(4);
+  }
+
+  readIfd(offset: number): IfdEntry[] {
+    if (offset + 2 > this.bytes.length) return [];
+
+    const count = this.u16(offset);
+    const entries: IfdEntry[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > this.bytes.length) break;
+
+      const type = this.u16(entryOffset + 2);
+      const valueCount = this.u32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+
+      entries.push({
+        tag: this.u16(entryOffset),
+        type,
+        count: valueCount,
+        entryOffset,
+        valueOffset: size <= 4 ? entryOffset + 8 : this.u32(entryOffset + 8),
+      });
+    }
+
+    return entries;
+  }
+
+  findEntry(ifdOffset: number, tag: number): IfdEntry | undefined {
+    return this.readIfd(ifdOffset).find((entry) => entry.tag === tag);
+  }
+
+  /** Deletes an entry by shifting the rest of the IFD down one slot */
+  removeEntry(ifdOffset: number, entry: IfdEntry): void {
+    const count = this.u16(ifdOffset);
+    const end = ifdOffset + 2 + count * 12 + 4; // includes next-IFD pointer
+
+    this.bytes.copyWithin(entry.entryOffset, entry.entryOffset + 12, end);
+    this.bytes.fill(0, end - 12, end);
+    this.setU16(ifdOffset, count - 1);
+  }
+
+  /** Zeroes an IFD and any out-of-line values it owns */
+  clearIfd(ifdOffset: number): void {
+    for (const entry of this.readIfd(ifdOffset)) {
+      const size = (TYPE_SIZES[entry.type] ?? 1) * entry.count;
+      if (size > 4 && entry.valueOffset + size <= this.bytes.length) {
+        this.bytes.fill(0, entry.valueOffset, entry.valueOffset + size);
+      }
+    }
+
+    const count = this.u16(ifdOffset);
+    this.bytes.fill(0, ifdOffset, ifdOffset + 2 + count * 12 + 4);
+  }
+}
+
+export function isValidTiff(bytes: Uint8Array): boolean {
+  if (bytes.length < 8) return false;
+  const order = (bytes[0] << 8) | bytes[1];
+  return order === 0x4949 || order === 0x4d4d;
+}
+
+export function removeGpsData(tiff: Uint8Array): Uint8Array {
+  const copy = tiff.slice();
+  const view = new TiffView(copy);
+  const ifd0 = view.firstIfdOffset;
+  const pointer = view.findEntry(ifd0, TAG_GPS_IFD_POINTER);
+
+  if (pointer) {
+    view.clearIfd(view.u32(pointer.valueOffset));
+    view.removeEntry(ifd0, pointer);
+  }
+
+  return copy;
+}
+
+/** Reads the IFD0 Orientation tag (1-8), or null when absent or unreadable */
+export function getExifOrientation(tiff: Uint8Array | null): number | null {
+  if (!tiff || !isValidTiff(tiff)) return null;
+
+  try {
+    const view = new TiffView(tiff);
+    const entry = view.findEntry(view.firstIfdOffset, TAG_ORIENTATION);
+    if (!entry || entry.type !== TYPE_SHORT) return null;
+
+    const value = view.u16(entry.valueOffset);
+    return value >= 1 && value <= 8 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function readAscii(view: TiffView, entry: IfdEntry): string | null {
+  if (entry.type !== TYPE_ASCII) return null;
+  const end = entry.valueOffset + entry.count;
+  if (end > view.bytes.length) return null;
+  const text = String.fromCharCode(
+    ...view.bytes.subarray(entry.valueOffset, end)
+  );
+  return text.replace(/\0+$/, '').trim() || null;
+}
+
+/**
+ * Returns when the photo was taken as a `Date`, from DateTimeOriginal or,
+ * failing that, IFD0 DateTime. EXIF dates carry no zone, so the result is in
+ * local time, which is what people expect on a caption.
+ */
+export function getExifDateTime(tiff: Uint8Array | null): Date | null {
+  if (!tiff || !isValidTiff(tiff)) return null;
+
+  try {
+    const view = new TiffView(tiff);
+    const ifd0 = view.firstIfdOffset;
+    const exifPointer = view.findEntry(ifd0, TAG_EXIF_IFD_POINTER);
+    const original = exifPointer
+      ? view.findEntry(
+          view.u32(exifPointer.valueOffset),
+          TAG_DATE_TIME_ORIGINAL
+        )
+      : undefined;
+    const entry = original ?? view.findEntry(ifd0, TAG_DATE_TIME);
+    const text = entry ? readAscii(view, entry) : null;
+
+    const match = text?.match(
+      /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/
+    );
+    if (!match) return null;
+
+    const [year, month, day, hours, minutes, seconds] = match
+      .slice(1)
+      .map(Number);
+    const date = new Date(year, month - 1, day, hours, minutes, seconds);
+    return Number.isNaN(date.getTime()) ? null : date;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the camera as make and model, `Apple iPhone 15 Pro`. Most makers
+ * already start the model with their name (`Canon EOS R5`), which isn't
+ * repeated.
+ */
+export function getExifCamera(tiff: Uint8Array | null): string | null {
+  if (!tiff || !isValidTiff(tiff)) return null;
+
+  try {
+    const view = new TiffView(tiff);
+    const read = (tag: number) => {
+      const entry = view.findEntry(view.firstIfdOffset, tag);
+      return entry ? readAscii(view, entry) : null;
+    };
+    const make = read(TAG_MAKE);
+    const model = read(TAG_MODEL);
+
+    if (!model) return make;
+    if (!make || model.toLowerCase().startsWith(make.toLowerCase())) {
+      return model;
+    }
+    return `${make} ${model}`;
+  } catch {
+    return null;
+  }
+}
+
+// Apple maker note tags feeding the HDR headroom formula
+const APPLE_TAG_HDR_33 = 0x0021;
+const APPLE_TAG_HDR_48 = 0x0030;
+const APPLE_MAKER_NOTE_PREFIX = 'Apple iOS';
+
+/**
+ * Reads signed or unsigned rationals from Apple's maker note, a small TIFF
+ * structure whose offsets count from the start of the note itself.
+ */
+function readAppleMakerNoteValues(note: Uint8Array): Map<number, number> {
+  const values = new Map<number, number>();
+  if (String.fromCharCode(...note.subarray(0, 9)) !== APPLE_MAKER_NOTE_PREFIX) {
+    return values;
+  }
+
+  const view = new DataView(note.buffer, note.byteOffset, note.byteLength);
+  const littleEndian = view.getUint16(12) === 0x4949;
+  const count = view.getUint16(14, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = 16 + i * 12;
+    if (entry + 12 > note.length) break;
+
+    const type = view.getUint16(entry + 2, littleEndian);
+    if (type !== 5 && type !== 10) continue; // RATIONAL, SRATIONAL
+
+    const offset = view.getUint32(entry + 8, littleEndian);
+    if (offset + 8 > note.length) continue;
+    const numerator =
+      type === 10
+        ? view.getInt32(offset, littleEndian)
+        : view.getUint32(offset, littleEndian);
+    const denominator =
+      type === 10
+        ? view.getInt32(offset + 4, littleEndian)
+        : view.getUint32(offset + 4, littleEndian);
+    if (denominator !== 0) {
+      values.set(view.getUint16(entry, littleEndian), numerator / denominator);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * How much brighter than SDR white the HDR rendition of an Apple photo may
+ * get, as a linear factor. Derived from two maker note values using Apple's
+ * published formula; null when the file doesn't carry them.
+ */
+export function getAppleHdrHeadroom(tiff: Uint8Array | null): number | null {
+  if (!tiff || !isValidTiff(tiff)) return null;
+
+  try {
+    const view = new TiffView(tiff);
+    const exifPointer = view.findEntry(
+      view.firstIfdOffset,
+      TAG_EXIF_IFD_POINTER
+    );
+    const entry = exifPointer
+      ? view.findEntry(view.u32(exifPointer.valueOffset), TAG_MAKER_NOTE)
+      : undefined;
+    if (!entry || entry.valueOffset + entry.count > tiff.length) return null;
+
+    const values = readAppleMakerNoteValues(
+      tiff.subarray(entry.valueOffset, entry.valueOffset + entry.count)
+    );
+    const maker33 = values.get(APPLE_TAG_HDR_33);
+    const maker48 = values.get(APPLE_TAG_HDR_48);
+    if (maker33 === undefined || maker48 === undefined) return null;
+
+    let stops: number;
+    if (maker33 < 1) {
+      stops = maker48 <= 0.01 ? -20 * maker48 + 1.8 : -0.101 * maker48 + 1.601;
+    } else {
+      stops = maker48 <= 0.01 ? -70 * maker48 + 3 : -0.303 * maker48 + 2.303;
+    }
+    return 2 ** Math.max(stops, 0);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Marks the image as upright. Called once the pixels themselves have been
+ * rotated, so viewers don't apply the orientation a second time.
+ */
+export function resetExifOrientation(tiff: Uint8Array): Uint8Array {
+  const copy = tiff.slice();
+  const view = new TiffView(copy);
+  const entry = view.findEntry(view.firstIfdOffset, TAG_ORIENTATION);
+
+  if (entry && entry.type === TYPE_SHORT) {
+    view.setU16(entry.valueOffset, 1);
+  }
+
+  return copy;
+}
+
+/**
+ * Applies the user's metadata choice to an Exif TIFF block. Output pixels are
+ * always upright, so Orientation is reset to 1. Returns null when nothing
+ * should be written. Malformed blocks are dropped rather than copied
+ * through half-understood.
+ */
+export function filterExif(
+  tiff: Uint8Array | null,
+  mode: MetadataMode
+): Uint8Array | null {
+  if (!tiff || mode === 'strip' || !isValidTiff(tiff)) return null;
+
+  try {
+    const upright = resetExifOrientation(tiff);
+    return mode === 'keep-without-gps' ? removeGpsData(upright) : upright;
+  } catch {
+    return null;
+  }
+}
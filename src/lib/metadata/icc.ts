@@ -0,0 +1,161 @@
+/**
+ * Just enough of ICC.1 to use matrix/TRC RGB profiles (Display P3, sRGB,
+ * Adobe RGB), which is what cameras and phones embed. LUT-based profiles are
+ * recognised but not interpreted.
+ */
+
+/** Row-major 3x3 matrix */
+export type Matrix3 = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+/** Maps an encoded channel value (0-1) to linear light (0-1) */
+export type ToneCurve = (value: number) => number;
+
+export interface IccRgbProfile {
+  /** Linear RGB to the D50 profile connection space */
+  rgbToXyz: Matrix3;
+  curves: [ToneCurve, ToneCurve, ToneCurve];
+}
+
+const HEADER_SIZE = 128;
+
+function readSignature(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+export function isIccProfile(bytes: Uint8Array): boolean {
+  return bytes.length >= HEADER_SIZE + 4 && readSignature(bytes, 36) === 'acsp';
+}
+
+function readTags(
+  view: DataView,
+  bytes: Uint8Array
+): Map<string, { offset: number; size: number }> {
+  const tags = new Map<string, { offset: number; size: number }>();
+  const count = view.getUint32(HEADER_SIZE);
+
+  for (let i = 0; i < count; i++) {
+    const entry = HEADER_SIZE + 4 + i * 12;
+    if (entry + 12 > bytes.length) break;
+
+    const offset = view.getUint32(entry + 4);
+    const size = view.getUint32(entry + 8);
+    if (offset + size <= bytes.length) {
+      tags.set(readSignature(bytes, entry), { offset, size });
+    }
+  }
+
+  return tags;
+}
+
+function s15Fixed16(view: DataView, offset: number): number {
+  return view.getInt32(offset) / 65536;
+}
+
+function readXyz(view: DataView, offset: number): [number, number, number] {
+  return [
+    s15Fixed16(view, offset + 8),
+    s15Fixed16(view, offset + 12),
+    s15Fixed16(view, offset + 16),
+  ];
+}
+
+function readCurv(view: DataView, offset: number): ToneCurve {
+  const count = view.getUint32(offset + 8);
+  if (count === 0) return (value) => value;
+  if (count === 1) {
+    const gamma = view.getUint16(offset + 12) / 256;
+    return (value) => Math.pow(value, gamma);
+  }
+
+  const table = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    table[i] = view.getUint16(offset + 12 + i * 2) / 65535;
+  }
+  return (value) => {
+    const position = Math.min(Math.max(value, 0), 1) * (count - 1);
+    const index = Math.min(Math.floor(position), count - 2);
+    const fraction = position - index;
+    return table[index] * (1 - fraction) + table[index + 1] * fraction;
+  };
+}
+
+// Parameter counts of the five parametricCurveType functions
+const PARA_PARAMETER_COUNTS = [1, 3, 4, 5, 7];
+
+function readPara(view: DataView, offset: number): ToneCurve | null {
+  const type = view.getUint16(offset + 8);
+  const count = PARA_PARAMETER_COUNTS[type];
+  if (count === undefined) return null;
+
+  const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = Array.from(
+    { length: count },
+    (_, i) => s15Fixed16(view, offset + 12 + i * 4)
+  );
+
+  switch (type) {
+    case 0:
+      return (x) => Math.pow(x, g);
+    case 1:
+      return (x) => (x >= -b / a ? Math.pow(a * x + b, g) : 0);
+    case 2:
+      return (x) => (x >= -b / a ? Math.pow(a * x + b, g) + c : c);
+    case 3:
+      return (x) => (x >= d ? Math.pow(a * x + b, g) : c * x);
+    default:
+      return (x) => (x >= d ? Math.pow(a * x + b, g) + e : c * x + f);
+  }
+}
+
+function readCurve(
+  view: DataView,
+  bytes: Uint8Array,
+  offset: number
+): ToneCurve | null {
+  const type = readSignature(bytes, offset);
+  if (type === 'curv') return readCurv(view, offset);
+  if (type === 'para') return readPara(view, offset);
+  return null;
+}
+
+/**
+ * Reads the colorant matrix and tone curves of an RGB matrix/TRC profile.
+ * Returns null for anything else, including malformed data.
+ */
+export function parseIccRgbProfile(bytes: Uint8Array): IccRgbProfile | null {
+  if (!isIccProfile(bytes)) return null;
+  if (readSignature(bytes, 16) !== 'RGB ') return null;
+  if (readSignature(bytes, 20) !== 'XYZ ') return null;
+
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tags = readTags(view, bytes);
+    const [r, g, b] = ['rXYZ', 'gXYZ', 'bXYZ'].map((signature) => {
+      const tag = tags.get(signature);
+      return tag ? readXyz(view, tag.offset) : null;
+    });
+    const [rCurve, gCurve, bCurve] = ['rTRC', 'gTRC', 'bTRC'].map(
+      (signature) => {
+        const tag = tags.get(signature);
+        return tag ? readCurve(view, bytes, tag.offset) : null;
+      }
+    );
+    if (!r || !g || !b || !rCurve || !gCurve || !bCurve) return null;
+
+    return {
+      rgbToXyz: [r[0], g[0], b[0], r[1], g[1], b[1], r[2], g[2], b[2]],
+      curves: [rCurve, gCurve, bCurve],
+    };
+  } catch {
+    return null;
+  }
+}
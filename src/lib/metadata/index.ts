@@ -0,0 +1,88 @@
+import { extractExif, parseHeifContainer } from '../conversion/heif-container';
+import { getExifCamera, getExifDateTime } from './exif';
+import {
+  createExifSegmentPayload,
+  createIccSegmentPayloads,
+  insertJpegSegments,
+  MARKER_APP1,
+  MARKER_APP2,
+} from './jpeg';
+import { createIccpChunk, insertPngChunks } from './png';
+import { addWebpChunks } from './webp';
+
+export * from './exif';
+export * from './icc';
+export * from './jpeg';
+export * from './png';
+export * from './ultra-hdr';
+export * from './webp';
+
+export interface EmbeddedMetadata {
+  /** Exif TIFF block, already filtered for the user's metadata choice */
+  exif?: Uint8Array | null;
+  icc?: Uint8Array | null;
+}
+
+/**
+ * Writes Exif and ICC data into an encoded image. JPEG and WebP take both,
+ * PNG only the profile; other formats are returned unchanged.
+ */
+export async function embedMetadata(
+  blob: Blob,
+  { exif, icc }: EmbeddedMetadata
+): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let output: Uint8Array;
+
+  if (blob.type === 'image/jpeg') {
+    output = insertJpegSegments(bytes, [
+      ...(exif
+        ? [{ marker: MARKER_APP1, payload: createExifSegmentPayload(exif) }]
+        : []),
+      ...(icc
+        ? createIccSegmentPayloads(icc).map((payload) => ({
+            marker: MARKER_APP2,
+            payload,
+          }))
+        : []),
+    ]);
+  } else if (blob.type === 'image/webp') {
+    output = addWebpChunks(bytes, [
+      ...(icc ? [{ fourcc: 'ICCP' as const, data: icc }] : []),
+      ...(exif ? [{ fourcc: 'EXIF' as const, data: exif }] : []),
+    ]);
+  } else if (blob.type === 'image/png' && icc) {
+    output = insertPngChunks(bytes, [await createIccpChunk(icc)]);
+  } else {
+    return blob;
+  }
+
+  return new Blob([output], { type: blob.type });
+}
+
+export interface CaptureDetails {
+  date: Date | null;
+  camera: string | null;
+}
+
+/** Reads when and with what a HEIC photo was taken, as far as Exif says */
+export async function readCaptureDetails(
+  file: Blob,
+  itemId?: number
+): Promise<CaptureDetails> {
+  try {
+    const container = parseHeifContainer(await file.arrayBuffer());
+    const exif = extractExif(container, itemId);
+    return { date: getExifDateTime(exif), camera: getExifCamera(exif) };
+  } catch {
+    return { date: null, camera: null };
+  }
+}
+
+/** Reads the capture date of a HEIC file, or null when it has none */
+export async function readCaptureDate(
+  file: Blob,
+  itemId?: number
+): Promise<Date | null> {
+  return (await readCaptureDetails(file, itemId)).date;
+}
@@ -0,0 +1,135 @@
+const MARKER_SOI = 0xd8;
+const MARKER_APP0 = 0xe0;
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+
+const MARKER_APP15 = 0xef;
+
+export const MARKER_APP1 = 0xe1;
+export const MARKER_APP2 = 0xe2;
+
+export interface JpegSegment {
+  marker: number;
+  payload: Uint8Array;
+}
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 4 && bytes[0] === 0xff && bytes[1] === MARKER_SOI;
+}
+
+function spliceSegments(
+  jpeg: Uint8Array,
+  insertAt: number,
+  segments: JpegSegment[]
+): Uint8Array {
+  const encoded = segments.map(({ marker, payload }) => {
+    if (payload.length > MAX_SEGMENT_PAYLOAD) {
+      throw new Error('JPEG segment payload exceeds 64 KB');
+    }
+    const segment = new Uint8Array(4 + payload.length);
+    const length = payload.length + 2;
+    segment.set([0xff, marker, length >> 8, length & 0xff]);
+    segment.set(payload, 4);
+    return segment;
+  });
+
+  const total = encoded.reduce((sum, segment) => sum + segment.length, 0);
+  const output = new Uint8Array(jpeg.length + total);
+  output.set(jpeg.subarray(0, insertAt));
+
+  let offset = insertAt;
+  for (const segment of encoded) {
+    output.set(segment, offset);
+    offset += segment.length;
+  }
+  output.set(jpeg.subarray(insertAt), offset);
+
+  return output;
+}
+
+/**
+ * Inserts application segments right after SOI (and the JFIF APP0 segment
+ * canvas encoders emit), where readers expect to find Exif and ICC data.
+ */
+export function insertJpegSegments(
+  jpeg: Uint8Array,
+  segments: JpegSegment[]
+): Uint8Array {
+  if (!isJpeg(jpeg)) {
+    throw new Error('Not a JPEG file');
+  }
+
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === MARKER_APP0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+
+  return spliceSegments(jpeg, insertAt, segments);
+}
+
+/** Offset just past the run of APPn segments that follows SOI */
+export function getAppSegmentsEnd(jpeg: Uint8Array): number {
+  let offset = 2;
+  while (
+    offset + 4 <= jpeg.length &&
+    jpeg[offset] === 0xff &&
+    jpeg[offset + 1] >= MARKER_APP0 &&
+    jpeg[offset + 1] <= MARKER_APP15
+  ) {
+    offset += 2 + ((jpeg[offset + 2] << 8) | jpeg[offset + 3]);
+  }
+  return offset;
+}
+
+/**
+ * Inserts segments after every existing APPn segment, so Exif stays first
+ * when XMP or MPF data is added to an already tagged file.
+ */
+export function appendJpegAppSegments(
+  jpeg: Uint8Array,
+  segments: JpegSegment[]
+): Uint8Array {
+  if (!isJpeg(jpeg)) {
+    throw new Error('Not a JPEG file');
+  }
+  return spliceSegments(jpeg, getAppSegmentsEnd(jpeg), segments);
+}
+
+export function createXmpSegmentPayload(xmp: string): Uint8Array {
+  const namespace = 'http://ns.adobe.com/xap/1.0/\0';
+  const packet = new TextEncoder().encode(xmp);
+  const payload = new Uint8Array(namespace.length + packet.length);
+  for (let i = 0; i < namespace.length; i++) {
+    payload[i] = namespace.charCodeAt(i);
+  }
+  payload.set(packet, namespace.length);
+  return payload;
+}
+
+export function createExifSegmentPayload(tiff: Uint8Array): Uint8Array {
+  const payload = new Uint8Array(6 + tiff.length);
+  payload.set([0x45, 0x78, 0x69, 0x66, 0, 0]); // "Exif\0\0"
+  payload.set(tiff, 6);
+  return payload;
+}
+
+// "ICC_PROFILE\0", then the 1-based chunk number and the chunk count
+const ICC_HEADER_SIZE = 14;
+const ICC_CHUNK_SIZE = MAX_SEGMENT_PAYLOAD - ICC_HEADER_SIZE;
+
+/** Splits an ICC profile across as many APP2 payloads as it needs */
+export function createIccSegmentPayloads(icc: Uint8Array): Uint8Array[] {
+  const count = Math.ceil(icc.length / ICC_CHUNK_SIZE);
+  if (count > 255) {
+    throw new Error('ICC profile is too large for a JPEG file');
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    const data = icc.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE);
+    const payload = new Uint8Array(ICC_HEADER_SIZE + data.length);
+    for (let c = 0; c < 11; c++) payload[c] = 'ICC_PROFILE'.charCodeAt(c);
+    payload[12] = i + 1;
+    payload[13] = count;
+    payload.set(data, ICC_HEADER_SIZE);
+    return payload;
+  });
+}
@@ -0,0 +1,68 @@
+import { updateCrc32 } from '../utils/crc32';
+
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export function isPng(bytes: Uint8Array): boolean {
+  return (
+    bytes.length > 8 && PNG_SIGNATURE.every((value, i) => bytes[i] === value)
+  );
+}
+
+export function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(12 + data.length);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) output[4 + i] = type.charCodeAt(i);
+  output.set(data, 8);
+  view.setUint32(
+    8 + data.length,
+    updateCrc32(0, output.subarray(4, 8 + data.length))
+  );
+  return output;
+}
+
+/** zlib-wrapped deflate, the only compression method PNG defines */
+export async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function createIccpChunk(icc: Uint8Array): Promise<Uint8Array> {
+  const name = 'ICC Profile';
+  const compressed = await deflate(icc);
+  const data = new Uint8Array(name.length + 2 + compressed.length);
+  for (let i = 0; i < name.length; i++) data[i] = name.charCodeAt(i);
+  // Then a null separator and compression method 0, both already zero
+  data.set(compressed, name.length + 2);
+  return createPngChunk('iCCP', data);
+}
+
+/**
+ * Inserts ready-made chunks straight after IHDR, which satisfies the rule
+ * that colour chunks such as iCCP come before PLTE and IDAT.
+ */
+export function insertPngChunks(
+  png: Uint8Array,
+  chunks: Uint8Array[]
+): Uint8Array {
+  if (!isPng(png)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const insertAt = 8 + 12 + view.getUint32(8);
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const output = new Uint8Array(png.length + total);
+  output.set(png.subarray(0, insertAt));
+
+  let offset = insertAt;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  output.set(png.subarray(insertAt), offset);
+
+  return output;
+}
@@ -0,0 +1,164 @@
+import {
+  appendJpegAppSegments,
+  createXmpSegmentPayload,
+  getAppSegmentsEnd,
+  isJpeg,
+  MARKER_APP1,
+  MARKER_APP2,
+} from './jpeg';
+
+/**
+ * Gain map parameters in the Adobe/ISO 21496-1 model. Gains and capacities
+ * are log2 values; offsets are in linear light.
+ */
+export interface GainMapMetadata {
+  gainMapMin: number;
+  gainMapMax: number;
+  gamma: number;
+  offsetSdr: number;
+  offsetHdr: number;
+  hdrCapacityMin: number;
+  hdrCapacityMax: number;
+}
+
+const XMP_HEADER =
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">';
+const XMP_FOOTER = '</rdf:RDF></x:xmpmeta>';
+const HDRGM_NAMESPACE = 'http://ns.adobe.com/hdr-gain-map/1.0/';
+
+// "MPF\0", TIFF header, 3-entry IFD, then two 16-byte MP entries
+const MPF_IFD_OFFSET = 8;
+const MPF_ENTRIES_OFFSET = MPF_IFD_OFFSET + 2 + 3 * 12 + 4;
+const MPF_PAYLOAD_SIZE = 4 + MPF_ENTRIES_OFFSET + 2 * 16;
+const MP_TYPE_PRIMARY = 0x030000;
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1e6) / 1e6);
+}
+
+function createGainMapXmp(metadata: GainMapMetadata): string {
+  return (
+    XMP_HEADER +
+    `<rdf:Description rdf:about="" xmlns:hdrgm="${HDRGM_NAMESPACE}"` +
+    ' hdrgm:Version="1.0"' +
+    ` hdrgm:GainMapMin="${formatNumber(metadata.gainMapMin)}"` +
+    ` hdrgm:GainMapMax="${formatNumber(metadata.gainMapMax)}"` +
+    ` hdrgm:Gamma="${formatNumber(metadata.gamma)}"` +
+    ` hdrgm:OffsetSDR="${formatNumber(metadata.offsetSdr)}"` +
+    ` hdrgm:OffsetHDR="${formatNumber(metadata.offsetHdr)}"` +
+    ` hdrgm:HDRCapacityMin="${formatNumber(metadata.hdrCapacityMin)}"` +
+    ` hdrgm:HDRCapacityMax="${formatNumber(metadata.hdrCapacityMax)}"` +
+    ' hdrgm:BaseRenditionIsHDR="False"/>' +
+    XMP_FOOTER
+  );
+}
+
+/** Points readers at the gain map through the Google container directory */
+function createPrimaryXmp(gainMapLength: number): string {
+  return (
+    XMP_HEADER +
+    '<rdf:Description rdf:about=""' +
+    ' xmlns:Container="http://ns.google.com/photos/1.0/container/"' +
+    ' xmlns:Item="http://ns.google.com/photos/1.0/container/item/"' +
+    ` xmlns:hdrgm="${HDRGM_NAMESPACE}" hdrgm:Version="1.0">` +
+    '<Container:Directory><rdf:Seq>' +
+    '<rdf:li rdf:parseType="Resource">' +
+    '<Container:Item Item:Semantic="Primary" Item:Mime="image/jpeg"/>' +
+    '</rdf:li>' +
+    '<rdf:li rdf:parseType="Resource">' +
+    '<Container:Item Item:Semantic="GainMap" Item:Mime="image/jpeg"' +
+    ` Item:Length="${gainMapLength}"/>` +
+    '</rdf:li>' +
+    '</rdf:Seq></Container:Directory>' +
+    '</rdf:Description>' +
+    XMP_FOOTER
+  );
+}
+
+/**
+ * CIPA DC-007 Multi-Picture Format index. Offsets of later images count from
+ * the TIFF header inside this segment, not from the start of the file.
+ */
+function createMpfPayload(
+  primarySize: number,
+  gainMapSize: number,
+  gainMapOffset: number
+): Uint8Array {
+  const payload = new Uint8Array(MPF_PAYLOAD_SIZE);
+  const view = new DataView(payload.buffer, 4);
+  payload.set([0x4d, 0x50, 0x46, 0]); // "MPF\0"
+
+  view.setUint16(0, 0x4d4d); // big-endian
+  view.setUint16(2, 42);
+  view.setUint32(4, MPF_IFD_OFFSET);
+
+  view.setUint16(MPF_IFD_OFFSET, 3);
+  const entries: [number, number, number, number][] = [
+    [0xb000, 7, 4, 0x30313030], // MPFVersion "0100"
+    [0xb001, 4, 1, 2], // NumberOfImages
+    [0xb002, 7, 32, MPF_ENTRIES_OFFSET], // MPEntry
+  ];
+  entries.forEach(([tag, type, count, value], i) => {
+    const entry = MPF_IFD_OFFSET + 2 + i * 12;
+    view.setUint16(entry, tag);
+    view.setUint16(entry + 2, type);
+    view.setUint32(entry + 4, count);
+    view.setUint32(entry + 8, value);
+  });
+  // Next IFD offset stays 0
+
+  view.setUint32(MPF_ENTRIES_OFFSET, MP_TYPE_PRIMARY);
+  view.setUint32(MPF_ENTRIES_OFFSET + 4, primarySize);
+  // Primary image offset is 0 by definition
+  view.setUint32(MPF_ENTRIES_OFFSET + 20, gainMapSize);
+  view.setUint32(MPF_ENTRIES_OFFSET + 24, gainMapOffset);
+
+  return payload;
+}
+
+/**
+ * Builds an Ultra HDR JPEG: the SDR primary image, tagged with XMP and MPF
+ * segments, followed by the gain map as a second JPEG. Viewers without HDR
+ * support just show the primary.
+ */
+export function createUltraHdrJpeg(
+  primary: Uint8Array,
+  gainMap: Uint8Array,
+  metadata: GainMapMetadata
+): Uint8Array {
+  if (!isJpeg(primary) || !isJpeg(gainMap)) {
+    throw new Error('Ultra HDR images need JPEG primary and gain map images');
+  }
+
+  const gainMapJpeg = appendJpegAppSegments(gainMap, [
+    {
+      marker: MARKER_APP1,
+      payload: createXmpSegmentPayload(createGainMapXmp(metadata)),
+    },
+  ]);
+  const xmp = createXmpSegmentPayload(createPrimaryXmp(gainMapJpeg.length));
+
+  // Segment sizes are known up front, so the MPF offsets can be computed
+  // before anything is written
+  const insertAt = getAppSegmentsEnd(primary);
+  const primarySize = primary.length + 4 + xmp.length + 4 + MPF_PAYLOAD_SIZE;
+  const mpfTiffHeader = insertAt + 4 + xmp.length + 4 + 4;
+
+  const tagged = appendJpegAppSegments(primary, [
+    { marker: MARKER_APP1, payload: xmp },
+    {
+      marker: MARKER_APP2,
+      payload: createMpfPayload(
+        primarySize,
+        gainMapJpeg.length,
+        primarySize - mpfTiffHeader
+      ),
+    },
+  ]);
+
+  const output = new Uint8Array(tagged.length + gainMapJpeg.length);
+  output.set(tagged);
+  output.set(gainMapJpeg, tagged.length);
+  return output;
+}
@@ -0,0 +1,144 @@
+export const VP8X_FLAG_ICC = 0x20;
+export const VP8X_FLAG_ALPHA = 0x10;
+export const VP8X_FLAG_EXIF = 0x08;
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+function readFourcc(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+export function isWebp(bytes: Uint8Array): boolean {
+  return (
+    bytes.length > 12 &&
+    readFourcc(bytes, 0) === 'RIFF' &&
+    readFourcc(bytes, 8) === 'WEBP'
+  );
+}
+
+function readChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const fourcc = readFourcc(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({
+      fourcc,
+      data: bytes.subarray(offset + 8, offset + 8 + size),
+    });
+    offset += 8 + size + (size & 1);
+  }
+
+  return chunks;
+}
+
+/** Reads canvas size and alpha usage from a simple-format bitstream */
+function readBitstreamInfo(
+  chunk: RiffChunk
+): { width: number; height: number; hasAlpha: boolean } | null {
+  const { fourcc, data } = chunk;
+
+  if (fourcc === 'VP8 ' && data.length >= 10) {
+    return {
+      width: ((data[7] << 8) | data[6]) & 0x3fff,
+      height: ((data[9] << 8) | data[8]) & 0x3fff,
+      hasAlpha: false,
+    };
+  }
+
+  if (fourcc === 'VP8L' && data.length >= 5) {
+    const bits =
+      (data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)) >>> 0;
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      hasAlpha: ((bits >>> 28) & 1) === 1,
+    };
+  }
+
+  return null;
+}
+
+function createVp8x(width: number, height: number, flags: number): RiffChunk {
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  const w = width - 1;
+  const h = height - 1;
+  data.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff], 4);
+  data.set([h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 7);
+  return { fourcc: 'VP8X', data };
+}
+
+function writeChunks(chunks: RiffChunk[]): Uint8Array {
+  const size = chunks.reduce(
+    (sum, chunk) => sum + 8 + chunk.data.length + (chunk.data.length & 1),
+    4
+  );
+  const output = new Uint8Array(8 + size);
+  const view = new DataView(output.buffer);
+
+  output.set([0x52, 0x49, 0x46, 0x46]); // RIFF
+  view.setUint32(4, size, true);
+  output.set([0x57, 0x45, 0x42, 0x50], 8); // WEBP
+
+  let offset = 12;
+  for (const chunk of chunks) {
+    for (let i = 0; i < 4; i++) output[offset + i] = chunk.fourcc.charCodeAt(i);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    output.set(chunk.data, offset + 8);
+    offset += 8 + chunk.data.length + (chunk.data.length & 1);
+  }
+
+  return output;
+}
+
+/**
+ * Adds metadata chunks to a WebP file, converting simple-format files to the
+ * extended (VP8X) format when needed. ICCP goes straight after VP8X, EXIF and
+ * XMP at the end, as the container spec requires.
+ */
+export function addWebpChunks(
+  webp: Uint8Array,
+  additions: { fourcc: 'ICCP' | 'EXIF' | 'XMP '; data: Uint8Array }[]
+): Uint8Array {
+  if (!isWebp(webp)) {
+    throw new Error('Not a WebP file');
+  }
+
+  const chunks = readChunks(webp).filter(
+    (chunk) => !additions.some((addition) => addition.fourcc === chunk.fourcc)
+  );
+
+  let vp8x = chunks.find((chunk) => chunk.fourcc === 'VP8X');
+  if (!vp8x) {
+    const info = chunks.map(readBitstreamInfo).find((entry) => entry !== null);
+    if (!info) {
+      throw new Error('Unrecognised WebP bitstream');
+    }
+    vp8x = createVp8x(
+      info.width,
+      info.height,
+      info.hasAlpha ? VP8X_FLAG_ALPHA : 0
+    );
+    chunks.unshift(vp8x);
+  } else {
+    vp8x.data = vp8x.data.slice();
+  }
+
+  for (const addition of additions) {
+    if (addition.fourcc === 'ICCP') {
+      vp8x.data[0] |= VP8X_FLAG_ICC;
+      chunks.splice(chunks.indexOf(vp8x) + 1, 0, addition);
+    } else {
+      if (addition.fourcc === 'EXIF') vp8x.data[0] |= VP8X_FLAG_EXIF;
+      chunks.push(addition);
+    }
+  }
+
+  return writeChunks(chunks);
+}
@@ -0,0 +1,45 @@
+import {
+  canvasToBlob,
+  createCanvas,
+  getContext2D,
+} from '../conversion/processor';
+import { readJpegInfo } from './jpeg-info';
+import { PdfImage } from './types';
+
+// High enough that re-encoded PNG/WebP/AVIF pages don't show artefacts
+const REENCODE_QUALITY = 0.92;
+
+/**
+ * Prepares a converted image for the PDF writer. JPEGs go in untouched;
+ * other formats are decoded by the browser and re-encoded as JPEG on white,
+ * since PDF has no native WebP/AVIF support.
+ */
+export async function toPdfImage(
+  blob: Blob,
+  caption?: string
+): Promise<PdfImage> {
+  if (blob.type === 'image/jpeg') {
+    const jpeg = new Uint8Array(await blob.arrayBuffer());
+    const info = readJpegInfo(jpeg);
+    if (info) return { jpeg, ...info, caption };
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+    const ctx = getContext2D(canvas);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+
+    const encoded = await canvasToBlob(canvas, 'image/jpeg', REENCODE_QUALITY);
+    const jpeg = new Uint8Array(await encoded.arrayBuffer());
+    const info = readJpegInfo(jpeg);
+    if (!info) {
+      throw new Error('Could not read re-encoded JPEG');
+    }
+    return { jpeg, ...info, caption };
+  } finally {
+    bitmap.close();
+  }
+}
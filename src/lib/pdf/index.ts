@@ -0,0 +1,4 @@
+export { createPdfBlob, getPageDimensions } from './pdf-writer';
+export { readJpegInfo } from './jpeg-info';
+export { toPdfImage } from './images';
+export * from './types';
@@ -0,0 +1,55 @@
+import { PdfImage } from './types';
+
+const MARKER_SOI = 0xd8;
+const MARKER_SOS = 0xda;
+
+// SOF0-SOF15, minus DHT (C4), JPG (C8) and DAC (CC) which share the range
+function isStartOfFrame(marker: number): boolean {
+  return (
+    marker >= 0xc0 &&
+    marker <= 0xcf &&
+    marker !== 0xc4 &&
+    marker !== 0xc8 &&
+    marker !== 0xcc
+  );
+}
+
+/**
+ * Reads dimensions and component count from a JPEG's frame header, which is
+ * all a PDF needs to embed the file as-is with DCTDecode.
+ */
+export function readJpegInfo(
+  jpeg: Uint8Array
+): Pick<PdfImage, 'width' | 'height' | 'components'> | null {
+  if (jpeg[0] !== 0xff || jpeg[1] !== MARKER_SOI) return null;
+
+  let offset = 2;
+  while (offset + 4 <= jpeg.length) {
+    if (jpeg[offset] !== 0xff) return null;
+
+    const marker = jpeg[offset + 1];
+    // Fill bytes may pad markers
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === MARKER_SOS) return null;
+
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    if (isStartOfFrame(marker) && offset + 10 <= jpeg.length) {
+      const components = jpeg[offset + 9];
+      if (components !== 1 && components !== 3 && components !== 4) {
+        return null;
+      }
+      return {
+        height: (jpeg[offset + 5] << 8) | jpeg[offset + 6],
+        width: (jpeg[offset + 7] << 8) | jpeg[offset + 8],
+        components,
+      };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
@@ -0,0 +1,322 @@
+import { MIME_TYPES } from '../constants';
+import {
+  PdfImage,
+  PdfLayoutOptions,
+  PdfPageSize,
+  PdfProgress,
+  PdfWriteOptions,
+} from './types';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Portrait sizes in PDF points (1/72 inch)
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  a3: [841.89, 1190.55],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+// Columns x rows for portrait pages; landscape swaps them
+const GRIDS: Record<PdfLayoutOptions['imagesPerPage'], [number, number]> = {
+  1: [1, 1],
+  2: [1, 2],
+  4: [2, 2],
+  6: [2, 3],
+  9: [3, 3],
+};
+
+const GUTTER = 12;
+const CAPTION_FONT_SIZE = 9;
+const CAPTION_HEIGHT = 14;
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em (standard AFM)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const DEFAULT_GLYPH_WIDTH = 556;
+
+const COLOR_SPACES: Record<PdfImage['components'], string> = {
+  1: '/DeviceGray',
+  3: '/DeviceRGB',
+  4: '/DeviceCMYK',
+};
+
+interface Cell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/** Maps a caption to WinAnsi (Latin-1) bytes; anything else becomes `?` */
+function toWinAnsi(text: string): number[] {
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0) ?? 63;
+    return (code >= 32 && code <= 126) || (code >= 160 && code <= 255)
+      ? code
+      : 63;
+  });
+}
+
+function measureText(codes: number[], fontSize: number): number {
+  const units = codes.reduce(
+    (sum, code) =>
+      sum +
+      (code >= 32 && code <= 126
+        ? HELVETICA_WIDTHS[code - 32]
+        : DEFAULT_GLYPH_WIDTH),
+    0
+  );
+  return (units * fontSize) / 1000;
+}
+
+function encodePdfString(codes: number[]): string {
+  return codes
+    .map((code) => {
+      if (code === 40 || code === 41 || code === 92) {
+        return `\\${String.fromCharCode(code)}`;
+      }
+      return code > 126 ? `\\${code.toString(8)}` : String.fromCharCode(code);
+    })
+    .join('');
+}
+
+/** Shortens a caption with an ellipsis until it fits `maxWidth` */
+function fitCaption(text: string, maxWidth: number): number[] {
+  let codes = toWinAnsi(text);
+  if (measureText(codes, CAPTION_FONT_SIZE) <= maxWidth) return codes;
+
+  const ellipsis = toWinAnsi('...');
+  while (
+    codes.length > 0 &&
+    measureText([...codes, ...ellipsis], CAPTION_FONT_SIZE) > maxWidth
+  ) {
+    codes = codes.slice(0, -1);
+  }
+  return [...codes, ...ellipsis];
+}
+
+export function getPageDimensions(
+  options: Pick<PdfLayoutOptions, 'pageSize' | 'orientation'>
+): { width: number; height: number } {
+  const [width, height] = PAGE_SIZES[options.pageSize];
+  return options.orientation === 'landscape'
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+function getCells(options: PdfLayoutOptions): Cell[] {
+  const page = getPageDimensions(options);
+  const margin = Math.max(0, options.marginMm) * POINTS_PER_MM;
+  const [portraitColumns, portraitRows] = GRIDS[options.imagesPerPage];
+  const [columns, rows] =
+    options.orientation === 'landscape'
+      ? [portraitRows, portraitColumns]
+      : [portraitColumns, portraitRows];
+
+  const cellWidth =
+    (page.width - 2 * margin - (columns - 1) * GUTTER) / columns;
+  const cellHeight = (page.height - 2 * margin - (rows - 1) * GUTTER) / rows;
+  const cells: Cell[] = [];
+
+  // Reading order: left to right, top to bottom (PDF's origin is bottom-left)
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      cells.push({
+        x: margin + column * (cellWidth + GUTTER),
+        y: page.height - margin - (row + 1) * cellHeight - row * GUTTER,
+        width: Math.max(1, cellWidth),
+        height: Math.max(1, cellHeight),
+      });
+    }
+  }
+
+  return cells;
+}
+
+function drawImage(
+  image: PdfImage,
+  name: string,
+  cell: Cell,
+  options: PdfLayoutOptions
+): string {
+  const hasCaption = options.caption !== 'none' && !!image.caption;
+  const area = {
+    ...cell,
+    y: hasCaption ? cell.y + CAPTION_HEIGHT : cell.y,
+    height: Math.max(
+      1,
+      hasCaption ? cell.height - CAPTION_HEIGHT : cell.height
+    ),
+  };
+
+  const scale =
+    options.fit === 'fill'
+      ? Math.max(area.width / image.width, area.height / image.height)
+      : Math.min(area.width / image.width, area.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const x = area.x + (area.width - width) / 2;
+  const y = area.y + (area.height - height) / 2;
+  const n = formatNumber;
+
+  const commands = ['q'];
+  if (options.fit === 'fill') {
+    commands.push(
+      `${n(area.x)} ${n(area.y)} ${n(area.width)} ${n(area.height)} re W n`
+    );
+  }
+  commands.push(
+    `${n(width)} 0 0 ${n(height)} ${n(x)} ${n(y)} cm`,
+    `/${name} Do`,
+    'Q'
+  );
+
+  if (hasCaption) {
+    const codes = fitCaption(image.caption!, cell.width);
+    const textX =
+      cell.x + (cell.width - measureText(codes, CAPTION_FONT_SIZE)) / 2;
+    commands.push(
+      'BT',
+      `/F1 ${CAPTION_FONT_SIZE} Tf`,
+      `${n(textX)} ${n(cell.y + 3)} Td`,
+      `(${encodePdfString(codes)}) Tj`,
+      'ET'
+    );
+  }
+
+  return commands.join('\n');
+}
+
+class PdfBuilder {
+  readonly parts: BlobPart[] = [];
+  private offsets: number[] = [];
+  private length = 0;
+  private encoder = new TextEncoder();
+
+  write(part: string | Uint8Array): void {
+    const bytes = typeof part === 'string' ? this.encoder.encode(part) : part;
+    this.parts.push(bytes);
+    this.length += bytes.length;
+  }
+
+  /** Writes object `id`, whose number must have been reserved in order */
+  object(id: number, dictionary: string, stream?: Uint8Array): void {
+    this.offsets[id] = this.length;
+    this.write(`${id} 0 obj\n${dictionary}\n`);
+    if (stream) {
+      this.write('stream\n');
+      this.write(stream);
+      this.write('\nendstream\n');
+    }
+    this.write('endobj\n');
+  }
+
+  finish(rootId: number): void {
+    const xrefOffset = this.length;
+    const count = this.offsets.length;
+    const rows = ['xref', `0 ${count}`, '0000000000 65535 f '];
+    for (let id = 1; id < count; id++) {
+      rows.push(`${String(this.offsets[id] ?? 0).padStart(10, '0')} 00000 n `);
+    }
+    this.write(`${rows.join('\n')}\n`);
+    this.write(
+      `trailer\n<< /Size ${count} /Root ${rootId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+    );
+  }
+}
+
+/**
+ * Lays JPEG photos out on pages and writes a PDF 1.4 file. Images are stored
+ * as-is (DCTDecode), so the output is about the size of the inputs.
+ */
+export async function createPdfBlob(
+  images: PdfImage[],
+  layout: PdfLayoutOptions,
+  { onProgress, signal }: PdfWriteOptions = {}
+): Promise<Blob> {
+  if (images.length === 0) {
+    throw new Error('A PDF needs at least one image');
+  }
+
+  const page = getPageDimensions(layout);
+  const cells = getCells(layout);
+  const pageCount = Math.ceil(images.length / cells.length);
+
+  // Object numbers: catalog, page tree, font, images, then page + contents
+  const CATALOG = 1;
+  const PAGES = 2;
+  const FONT = 3;
+  const imageId = (index: number) => 4 + index;
+  const pageId = (index: number) => 4 + images.length + index * 2;
+
+  const pdf = new PdfBuilder();
+  pdf.write('%PDF-1.4\n');
+  // The binary comment tells transfer tools this isn't a text file
+  pdf.write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  pdf.object(CATALOG, `<< /Type /Catalog /Pages ${PAGES} 0 R >>`);
+
+  const kids = Array.from({ length: pageCount }, (_, i) => `${pageId(i)} 0 R`);
+  pdf.object(
+    PAGES,
+    `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${pageCount} >>`
+  );
+  pdf.object(
+    FONT,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  );
+
+  const report = (imagesWritten: number) =>
+    onProgress?.({
+      imagesWritten,
+      totalImages: images.length,
+    } satisfies PdfProgress);
+
+  for (let index = 0; index < images.length; index++) {
+    signal?.throwIfAborted();
+    const image = images[index];
+    pdf.object(
+      imageId(index),
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${COLOR_SPACES[image.components]} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`,
+      image.jpeg
+    );
+    report(index + 1);
+    // Yield so progress can render between large images
+    await Promise.resolve();
+  }
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const first = pageIndex * cells.length;
+    const onPage = images.slice(first, first + cells.length);
+
+    const xObjects = onPage
+      .map((_, i) => `/Im${first + i} ${imageId(first + i)} 0 R`)
+      .join(' ');
+    const content = new TextEncoder().encode(
+      onPage
+        .map((image, i) => drawImage(image, `Im${first + i}`, cells[i], layout))
+        .join('\n')
+    );
+
+    const id = pageId(pageIndex);
+    pdf.object(
+      id,
+      `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] /Resources << /Font << /F1 ${FONT} 0 R >> /XObject << ${xObjects} >> >> /Contents ${id + 1} 0 R >>`
+    );
+    pdf.object(id + 1, `<< /Length ${content.length} >>`, content);
+  }
+
+  pdf.finish(CATALOG);
+  return new Blob(pdf.parts, { type: MIME_TYPES.pdf });
+}
@@ -0,0 +1,38 @@
+export type PdfPageSize = 'a4' | 'a3' | 'letter' | 'legal';
+
+export type PdfOrientation = 'portrait' | 'landscape';
+
+/** `fit` shows the whole photo; `fill` covers the cell and crops overflow */
+export type PdfImageFit = 'fit' | 'fill';
+
+export type PdfCaptionSource = 'none' | 'filename' | 'date';
+
+export type PdfImagesPerPage = 1 | 2 | 4 | 6 | 9;
+
+export interface PdfLayoutOptions {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  marginMm: number;
+  fit: PdfImageFit;
+  imagesPerPage: PdfImagesPerPage;
+  caption: PdfCaptionSource;
+}
+
+/** A baseline or progressive JPEG, embedded without re-encoding */
+export interface PdfImage {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+  components: 1 | 3 | 4;
+  caption?: string;
+}
+
+export interface PdfProgress {
+  imagesWritten: number;
+  totalImages: number;
+}
+
+export interface PdfWriteOptions {
+  onProgress?: (progress: PdfProgress) => void;
+  signal?: AbortSignal;
+}
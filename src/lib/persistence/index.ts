@@ -0,0 +1,2 @@
+export { QueueDatabase, getSourceKey } from './queue-database';
+export * from './types';
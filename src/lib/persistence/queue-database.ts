@@ -0,0 +1,275 @@
+import { normalizeSettings } from '../conversion/adapters';
+import { Logger } from '../logger';
+import type {
+  ConversionFile,
+  ConversionResult,
+  ConversionSettings,
+  ResizePreset,
+} from '../../types/conversion';
+import { EvictionPolicy, PersistedQueue } from './types';
+
+const DATABASE_NAME = 'heic-converter';
+// 2: results carry their format and companion file kinds
+const DATABASE_VERSION = 2;
+
+// Queue entries are small and rewritten on every status change, so the
+// uploaded bytes live apart in `sources`, written once per upload
+type StoreName = 'files' | 'sources' | 'results' | 'state';
+
+interface StoredFile extends Omit<ConversionFile, 'file' | 'preview'> {
+  position: number;
+}
+
+interface StoredSource {
+  /** The queue item's sourceId, shared by every image split from one HEIC */
+  id: string;
+  file: File;
+}
+
+interface StoredResult
+  extends Omit<ConversionResult, 'originalFile' | 'downloadUrl'> {
+  convertedAt: number;
+  /** Converted and companion bytes, counted against the storage budget */
+  size: number;
+}
+
+interface StoredState {
+  key: 'settings' | 'resizePresets' | 'outputDirectory';
+  value: unknown;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** The key a queue item's uploaded File is stored under */
+export function getSourceKey(file: ConversionFile): string {
+  return file.sourceId ?? file.id;
+}
+
+/**
+ * The conversion queue in IndexedDB: queued Files, their results and the
+ * settings, so a reload mid-batch picks up where it left off. Results can
+ * be evicted independently; their queue items then convert again.
+ */
+export class QueueDatabase {
+  private constructor(private readonly db: IDBDatabase) {}
+
+  /** Null where IndexedDB is unavailable, e.g. during SSR or private modes */
+  static async open(): Promise<QueueDatabase | null> {
+    if (typeof indexedDB === 'undefined') return null;
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = ({ oldVersion }) => {
+      const db = request.result;
+      if (oldVersion < 1) {
+        db.createObjectStore('files', { keyPath: 'id' });
+        db.createObjectStore('sources', { keyPath: 'id' });
+        db.createObjectStore('results', { keyPath: 'id' });
+        db.createObjectStore('state', { keyPath: 'key' });
+        return;
+      }
+      // Older results convert again rather than being patched up
+      request.transaction?.objectStore('results').clear();
+    };
+
+    try {
+      return new QueueDatabase(await toPromise(request));
+    } catch (error) {
+      Logger.warn('Could not open the queue database, not persisting', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private async write(
+    stores: StoreName[],
+    apply: (transaction: IDBTransaction) => void
+  ): Promise<void> {
+    const transaction = this.db.transaction(stores, 'readwrite');
+    apply(transaction);
+    await whenComplete(transaction);
+  }
+
+  private async readAll<T>(store: StoreName): Promise<T[]> {
+    const transaction = this.db.transaction(store, 'readonly');
+    return toPromise(transaction.objectStore(store).getAll()) as Promise<T[]>;
+  }
+
+  /** Saves a queue entry, with its upload when `source` is given */
+  putFile(file: ConversionFile, position: number, source?: File) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { file: _, preview: __, ...entry } = file;
+    return this.write(['files', 'sources'], (transaction) => {
+      transaction.objectStore('files').put({ ...entry, position });
+      if (source) {
+        transaction
+          .objectStore('sources')
+          .put({ id: getSourceKey(file), file: source });
+      }
+    });
+  }
+
+  deleteFile(id: string) {
+    return this.write(['files', 'results'], (transaction) => {
+      transaction.objectStore('files').delete(id);
+      transaction.objectStore('results').delete(id);
+    });
+  }
+
+  deleteSource(key: string) {
+    return this.write(['sources'], (transaction) =>
+      transaction.objectStore('sources').delete(key)
+    );
+  }
+
+  putResult(result: ConversionResult) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { originalFile: _, downloadUrl: __, ...stored } = result;
+    const size =
+      result.convertedBlob.size +
+      (result.auxiliaryFiles ?? []).reduce(
+        (total, { blob }) => total + blob.size,
+        0
+      );
+    const record: StoredResult = { ...stored, convertedAt: Date.now(), size };
+    return this.write(['results'], (transaction) =>
+      transaction.objectStore('results').put(record)
+    );
+  }
+
+  deleteResult(id: string) {
+    return this.write(['results'], (transaction) =>
+      transaction.objectStore('results').delete(id)
+    );
+  }
+
+  putSettings(settings: ConversionSettings) {
+    return this.write(['state'], (transaction) =>
+      transaction.objectStore('state').put({ key: 'settings', value: settings })
+    );
+  }
+
+  putResizePresets(resizePresets: ResizePreset[]) {
+    return this.write(['state'], (transaction) =>
+      transaction
+        .objectStore('state')
+        .put({ key: 'resizePresets', value: resizePresets })
+    );
+  }
+
+  /** Remembers the output folder, or forgets it when `directory` is null */
+  putOutputDirectory(directory: FileSystemDirectoryHandle | null) {
+    return this.write(['state'], (transaction) => {
+      const store = transaction.objectStore('state');
+      if (directory) store.put({ key: 'outputDirectory', value: directory });
+      else store.delete('outputDirectory');
+    });
+  }
+
+  /**
+   * Drops results past the maximum age, then the oldest until the rest fit
+   * in the budget. Returns the ids of the evicted results.
+   */
+  async evictResults({
+    maxResultAgeMs,
+    storageBudgetBytes,
+  }: EvictionPolicy): Promise<string[]> {
+    const results = await this.readAll<StoredResult>('results');
+    const cutoff = Date.now() - maxResultAgeMs;
+    const evicted: string[] = [];
+    let total = 0;
+
+    // Newest first, so whatever overflows the budget is the oldest
+    results.sort((a, b) => b.convertedAt - a.convertedAt);
+    for (const result of results) {
+      total += result.size;
+      if (result.convertedAt < cutoff || total > storageBudgetBytes) {
+        evicted.push(result.id);
+      }
+    }
+
+    if (evicted.length > 0) {
+      await this.write(['results'], (transaction) => {
+        const store = transaction.objectStore('results');
+        evicted.forEach((id) => store.delete(id));
+      });
+      Logger.info('Evicted stored conversion results', {
+        count: evicted.length,
+      });
+    }
+    return evicted;
+  }
+
+  /**
+   * Reads the saved queue back. Items that were mid-conversion go back to
+   * pending, as do completed ones whose result has since been evicted.
+   */
+  async load(): Promise<PersistedQueue> {
+    const [entries, sources, storedResults, state] = await Promise.all([
+      this.readAll<StoredFile>('files'),
+      this.readAll<StoredSource>('sources'),
+      this.readAll<StoredResult>('results'),
+      this.readAll<StoredState>('state'),
+    ]);
+
+    const sourceFiles = new Map(sources.map(({ id, file }) => [id, file]));
+    const resultsById = new Map(storedResults.map((r) => [r.id, r]));
+    const files: ConversionFile[] = [];
+    const results: ConversionResult[] = [];
+
+    entries.sort((a, b) => a.position - b.position);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    for (const { position: _, ...entry } of entries) {
+      const source = sourceFiles.get(entry.sourceId ?? entry.id);
+      if (!source) continue;
+
+      const stored = resultsById.get(entry.id);
+      const hasResult = !!stored && entry.status === 'completed';
+      const file: ConversionFile = {
+        ...entry,
+        overrides: entry.overrides && normalizeSettings(entry.overrides),
+        file: source,
+        status:
+          entry.status === 'converting' ||
+          (entry.status === 'completed' && !hasResult)
+            ? 'pending'
+            : entry.status,
+      };
+      files.push(file);
+
+      if (stored && hasResult) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { convertedAt: __, size: ___, ...result } = stored;
+        results.push({
+          ...result,
+          originalFile: file,
+          downloadUrl: URL.createObjectURL(result.convertedBlob),
+        });
+      }
+    }
+
+    const stateValue = <T>(key: StoredState['key']) =>
+      state.find((record) => record.key === key)?.value as T | undefined;
+    const settings = stateValue<ConversionSettings>('settings');
+    return {
+      files,
+      results,
+      settings: settings && normalizeSettings(settings),
+      resizePresets: stateValue<ResizePreset[]>('resizePresets'),
+      outputDirectory: stateValue<FileSystemDirectoryHandle>('outputDirectory'),
+    };
+  }
+}
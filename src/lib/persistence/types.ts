@@ -0,0 +1,23 @@
+import type {
+  ConversionFile,
+  ConversionResult,
+  ConversionSettings,
+  ResizePreset,
+} from '../../types/conversion';
+
+/** Everything restored into the store after a reload */
+export interface PersistedQueue {
+  files: ConversionFile[];
+  results: ConversionResult[];
+  settings?: ConversionSettings;
+  resizePresets?: ResizePreset[];
+  /** Handles survive a reload, though access usually has to be re-granted */
+  outputDirectory?: FileSystemDirectoryHandle;
+}
+
+export interface EvictionPolicy {
+  /** Results converted longer ago than this are dropped */
+  maxResultAgeMs: number;
+  /** Oldest results go first once converted blobs take more than this */
+  storageBudgetBytes: number;
+}
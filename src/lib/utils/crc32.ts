@@ -0,0 +1,20 @@
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 (IEEE), as used by ZIP and PNG. Pass the previous value to chain. */
+export function updateCrc32(crc: number, chunk: Uint8Array): number {
+  let value = crc ^ 0xffffffff;
+  for (let i = 0; i < chunk.length; i++) {
+    value = CRC_TABLE[(value ^ chunk[i]) & 0xff] ^ (value >>> 8);
+  }
+  return (value ^ 0xffffffff) >>> 0;
+}
@@ -98,4 +98,5 @@ export function isHeicFile(file: File): boolean {
   );
 }
 
+export * from './crc32';
 export * from '../logger';
@@ -0,0 +1,7 @@
+export {
+  createZipStream,
+  createZipBlob,
+  getUniqueFileName,
+  getUniqueFileNames,
+} from './zip-writer';
+export * from './types';
@@ -0,0 +1,18 @@
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  lastModified?: Date;
+}
+
+export interface ZipProgress {
+  processedBytes: number;
+  totalBytes: number;
+  entriesWritten: number;
+  totalEntries: number;
+  currentFile: string | null;
+}
+
+export interface ZipOptions {
+  onProgress?: (progress: ZipProgress) => void;
+  signal?: AbortSignal;
+}
@@ -0,0 +1,254 @@
+import { updateCrc32 } from '../utils/crc32';
+import { ZipEntry, ZipOptions, ZipProgress } from './types';
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+// Bit 3: sizes and CRC follow the data; bit 11: file names are UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const VERSION = 20;
+const MAX_32_BIT = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralDirectoryRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+function localFileHeader(
+  name: Uint8Array,
+  time: number,
+  date: number
+): Uint8Array {
+  const header = new Uint8Array(30 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+  view.setUint16(4, VERSION, true);
+  view.setUint16(6, GENERAL_PURPOSE_FLAGS, true);
+  view.setUint16(8, 0, true); // stored, no compression
+  view.setUint16(10, time, true);
+  view.setUint16(12, date, true);
+  // CRC and sizes are zero here and written in the data descriptor
+  view.setUint16(26, name.length, true);
+  header.set(name, 30);
+  return header;
+}
+
+function dataDescriptor(crc: number, size: number): Uint8Array {
+  const descriptor = new Uint8Array(16);
+  const view = new DataView(descriptor.buffer);
+  view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+  view.setUint32(4, crc, true);
+  view.setUint32(8, size, true);
+  view.setUint32(12, size, true);
+  return descriptor;
+}
+
+function centralDirectoryHeader(record: CentralDirectoryRecord): Uint8Array {
+  const header = new Uint8Array(46 + record.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(4, VERSION, true);
+  view.setUint16(6, VERSION, true);
+  view.setUint16(8, GENERAL_PURPOSE_FLAGS, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, record.time, true);
+  view.setUint16(14, record.date, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, record.size, true);
+  view.setUint32(24, record.size, true);
+  view.setUint16(28, record.name.length, true);
+  view.setUint32(42, record.offset, true);
+  header.set(record.name, 46);
+  return header;
+}
+
+function endOfCentralDirectory(
+  entries: number,
+  size: number,
+  offset: number
+): Uint8Array {
+  const record = new Uint8Array(22);
+  const view = new DataView(record.buffer);
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(8, entries, true);
+  view.setUint16(10, entries, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  return record;
+}
+
+async function* readBlob(blob: Blob): AsyncGenerator<Uint8Array> {
+  if (typeof blob.stream !== 'function') {
+    yield new Uint8Array(await blob.arrayBuffer());
+    return;
+  }
+
+  const reader = blob.stream().getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* generateZip(
+  entries: ZipEntry[],
+  { onProgress, signal }: ZipOptions
+): AsyncGenerator<Uint8Array> {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`ZIP archives are limited to ${MAX_ENTRIES} entries`);
+  }
+
+  const encoder = new TextEncoder();
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.data.size, 0);
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+  let processedBytes = 0;
+
+  const report = (currentFile: string | null) =>
+    onProgress?.({
+      processedBytes,
+      totalBytes,
+      entriesWritten: records.length,
+      totalEntries: entries.length,
+      currentFile,
+    } satisfies ZipProgress);
+
+  for (const entry of entries) {
+    signal?.throwIfAborted();
+
+    const name = encoder.encode(entry.name);
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+    const header = localFileHeader(name, time, date);
+    const entryOffset = offset;
+
+    yield header;
+    offset += header.length;
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of readBlob(entry.data)) {
+      signal?.throwIfAborted();
+      crc = updateCrc32(crc, chunk);
+      size += chunk.length;
+      processedBytes += chunk.length;
+      yield chunk;
+      report(entry.name);
+    }
+    offset += size;
+
+    const descriptor = dataDescriptor(crc, size);
+    yield descriptor;
+    offset += descriptor.length;
+
+    if (offset > MAX_32_BIT) {
+      throw new Error('ZIP archive exceeds the 4 GB limit');
+    }
+
+    records.push({ name, crc, size, offset: entryOffset, time, date });
+    report(entry.name);
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const record of records) {
+    const header = centralDirectoryHeader(record);
+    directorySize += header.length;
+    yield header;
+  }
+
+  yield endOfCentralDirectory(records.length, directorySize, directoryOffset);
+  report(null);
+}
+
+/**
+ * Streams a ZIP archive (stored, uncompressed: the inputs are already
+ * compressed images) without holding more than one chunk of each file in
+ * memory at a time.
+ */
+export function createZipStream(
+  entries: ZipEntry[],
+  options: ZipOptions = {}
+): ReadableStream<Uint8Array> {
+  const iterator = generateZip(entries, options);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+}
+
+export async function createZipBlob(
+  entries: ZipEntry[],
+  options: ZipOptions = {}
+): Promise<Blob> {
+  const blob = await new Response(createZipStream(entries, options)).blob();
+  return new Blob([blob], { type: 'application/zip' });
+}
+
+/**
+ * Numbers `name` the way desktop file managers do, `photo (1).jpg`, until
+ * it isn't in `taken`. `taken` holds lower-cased names, as most file
+ * systems ignore case.
+ */
+export function getUniqueFileName(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  let candidate = name;
+  for (let n = 1; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  return candidate;
+}
+
+/**
+ * Makes archive entry names unique: `photo.jpg`, `photo (1).jpg`,
+ * `photo (2).jpg`. Comparison is case-insensitive because most extraction
+ * targets are.
+ */
+export function getUniqueFileNames(names: string[]): string[] {
+  const used = new Set<string>();
+
+  return names.map((name) => {
+    const unique = getUniqueFileName(name, used);
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
@@ -1,58 +1,225 @@
 import { create } from 'zustand';
+import { ErrorCode } from '../lib/constants';
+import { HeifImageInfo } from '../lib/conversion/types';
+import { compactOverrides } from '../lib/conversion/options';
+import { FALLBACK_CONCURRENCY } from '../lib/conversion/worker-pool';
+import type { PersistedQueue } from '../lib/persistence';
+import { generateUniqueId } from '../lib/utils';
 import {
   ConversionFile,
+  ConversionFileStatus,
   ConversionProgress,
+  ConversionResult,
   ConversionSettings,
+  ConversionSettingsOverrides,
+  ResizePreset,
+  ResizeSettings,
 } from '../types/conversion';
 
 interface ConversionStore {
   files: ConversionFile[];
   progress: Record<string, ConversionProgress>;
+  results: Record<string, ConversionResult>;
   settings: ConversionSettings;
+  /** Resize presets saved by the user; built-in ones live in constants */
+  resizePresets: ResizePreset[];
   isConverting: boolean;
+  concurrency: number;
+  /** Folder results are written to as they finish */
+  outputDirectory: FileSystemDirectoryHandle | null;
 
   // Actions
   addFiles: (files: ConversionFile[]) => void;
   removeFile: (id: string) => void;
+  expandFile: (sourceId: string, images: HeifImageInfo[]) => void;
   clearQueue: () => void;
+  /** Puts a queue saved before the last reload ahead of anything added since */
+  restoreQueue: (saved: PersistedQueue) => void;
   updateProgress: (id: string, progress: ConversionProgress) => void;
+  setResult: (id: string, result: ConversionResult) => void;
+  /** Records that a result was written to `directory` */
+  markResultSaved: (id: string, directory: FileSystemDirectoryHandle) => void;
   updateSettings: (settings: Partial<ConversionSettings>) => void;
+  /** Replaces the overrides of the given files; undefined clears them */
+  setFileOverrides: (
+    ids: string[],
+    overrides: ConversionSettingsOverrides | undefined
+  ) => void;
+  saveResizePreset: (label: string, resize: ResizeSettings) => void;
+  deleteResizePreset: (id: string) => void;
   setIsConverting: (isConverting: boolean) => void;
-  updateFileStatus: (id: string, status: ConversionFile['status']) => void;
+  updateFileStatus: (id: string, status: ConversionFileStatus) => void;
+  setConcurrency: (concurrency: number) => void;
+  setOutputDirectory: (directory: FileSystemDirectoryHandle | null) => void;
+  cancelFile: (id: string) => void;
+  cancelAll: () => void;
+  pauseFile: (id: string) => void;
+  pauseAll: () => void;
+  resumeFile: (id: string) => void;
+  resumeAll: () => void;
+  retryFile: (id: string) => void;
+  recordAttempt: (id: string) => void;
+  recordError: (id: string, code: ErrorCode) => void;
 }
 
-export const useConversionStore = create<ConversionStore>((set) => ({
+const ACTIVE_STATUSES: ConversionFileStatus[] = [
+  'pending',
+  'converting',
+  'paused',
+];
+
+// AbortControllers aren't serialisable state, so they live beside the store
+const abortControllers = new Map<string, AbortController>();
+
+export const createAbortSignal = (id: string): AbortSignal => {
+  abortControllers.get(id)?.abort();
+  const controller = new AbortController();
+  abortControllers.set(id, controller);
+  return controller.signal;
+};
+
+export const releaseAbortSignal = (id: string): void => {
+  abortControllers.delete(id);
+};
+
+const abortFile = (id: string): void => {
+  abortControllers.get(id)?.abort();
+  abortControllers.delete(id);
+};
+
+const setStatusWhere = (
+  files: ConversionFile[],
+  shouldUpdate: (file: ConversionFile) => boolean,
+  status: ConversionFileStatus
+): ConversionFile[] =>
+  files.map((file) => (shouldUpdate(file) ? { ...file, status } : file));
+
+// Conversions are aborted and object URLs revoked after the state update,
+// keeping updaters pure
+export const useConversionStore = create<ConversionStore>((set, get) => ({
   files: [],
   progress: {},
+  results: {},
   settings: {
-    outputFormat: 'jpg',
+    outputFormat: 'jpeg',
     quality: 80,
     resize: {
       maintainAspectRatio: true,
     },
+    resampling: 'lanczos3',
+    metadata: 'keep',
+    colorManagement: 'embed',
+    gainMap: 'ignore',
+    conflictPolicy: 'rename',
   },
+  resizePresets: [],
   isConverting: false,
+  // The core count is only known in the browser; useConversion sets it
+  // after hydration so the server and client render the same value
+  concurrency: FALLBACK_CONCURRENCY,
+  outputDirectory: null,
 
   addFiles: (newFiles) =>
     set((state) => ({
       files: [...state.files, ...newFiles],
     })),
 
-  removeFile: (id) =>
+  removeFile: (id) => {
+    const removed = get().results[id];
     set((state) => {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { [id]: _, ...remainingProgress } = state.progress;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [id]: __, ...remainingResults } = state.results;
       return {
         files: state.files.filter((f) => f.id !== id),
         progress: remainingProgress,
+        results: remainingResults,
+      };
+    });
+    abortFile(id);
+    if (removed) URL.revokeObjectURL(removed.downloadUrl);
+  },
+
+  expandFile: (sourceId, images) =>
+    set((state) => {
+      const isFromSource = (file: ConversionFile) =>
+        (file.sourceId ?? file.id) === sourceId;
+      const siblings = state.files.filter(isFromSource);
+      const source = siblings[0];
+
+      // Only files that haven't started can change their image selection
+      if (
+        !source ||
+        images.length === 0 ||
+        siblings.some((file) => file.status !== 'pending')
+      ) {
+        return state;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { sourceId: _, image: __, ...base } = source;
+      const expanded: ConversionFile[] =
+        images.length === 1 && images[0].isPrimary
+          ? [{ ...base, id: sourceId }]
+          : images.map(({ itemId, index }) => ({
+              ...base,
+              id: `${sourceId}:${itemId}`,
+              sourceId,
+              image: { itemId, index },
+            }));
+
+      const position = state.files.indexOf(source);
+      const remaining = state.files.filter((file) => !isFromSource(file));
+      return {
+        files: [
+          ...remaining.slice(0, position),
+          ...expanded,
+          ...remaining.slice(position),
+        ],
       };
     }),
 
-  clearQueue: () =>
+  clearQueue: () => {
+    const { files, results } = get();
     set({
       files: [],
       progress: {},
+      results: {},
       isConverting: false,
+    });
+    files.forEach((file) => abortFile(file.id));
+    Object.values(results).forEach((result) =>
+      URL.revokeObjectURL(result.downloadUrl)
+    );
+  },
+
+  restoreQueue: (saved) =>
+    set((state) => {
+      const restoredIds = new Set(saved.files.map((file) => file.id));
+      const completed: Record<string, ConversionProgress> = {};
+      saved.results.forEach((result) => {
+        completed[result.id] = {
+          percentage: 100,
+          stage: 'completed',
+          message: 'Conversion completed',
+        };
+      });
+
+      return {
+        files: [
+          ...saved.files,
+          ...state.files.filter((file) => !restoredIds.has(file.id)),
+        ],
+        progress: { ...completed, ...state.progress },
+        results: {
+          ...Object.fromEntries(saved.results.map((r) => [r.id, r])),
+          ...state.results,
+        },
+        settings: { ...state.settings, ...saved.settings },
+        resizePresets: saved.resizePresets ?? state.resizePresets,
+        outputDirectory: state.outputDirectory ?? saved.outputDirectory ?? null,
+      };
     }),
 
   updateProgress: (id, progress) =>
@@ -60,11 +227,73 @@ export const useConversionStore = create<ConversionStore>((set) => ({
       progress: { ...state.progress, [id]: progress },
     })),
 
+  setResult: (id, result) =>
+    set((state) => {
+      const previous = state.results[id];
+      if (previous && previous.downloadUrl !== result.downloadUrl) {
+        URL.revokeObjectURL(previous.downloadUrl);
+      }
+      return { results: { ...state.results, [id]: result } };
+    }),
+
+  markResultSaved: (id, directory) =>
+    set((state) => {
+      const result = state.results[id];
+      if (!result) return state;
+      return {
+        results: { ...state.results, [id]: { ...result, savedTo: directory } },
+      };
+    }),
+
   updateSettings: (newSettings) =>
     set((state) => ({
       settings: { ...state.settings, ...newSettings },
     })),
 
+  setFileOverrides: (ids, overrides) => {
+    const state = get();
+    const active = compactOverrides(overrides);
+    // A file mid-conversion keeps what it started with; a finished one
+    // is outdated by the change and goes back to the queue
+    const targets = new Set(
+      state.files
+        .filter((file) => ids.includes(file.id))
+        .filter((file) => file.status !== 'converting')
+        .map((file) => file.id)
+    );
+    if (targets.size === 0) return;
+
+    const results = { ...state.results };
+    const progress = { ...state.progress };
+    const outdatedUrls: string[] = [];
+    const files = state.files.map((file) => {
+      if (!targets.has(file.id)) return file;
+      const updated = { ...file, overrides: active };
+      if (file.status !== 'completed') return updated;
+
+      if (results[file.id]) outdatedUrls.push(results[file.id].downloadUrl);
+      delete results[file.id];
+      delete progress[file.id];
+      return { ...updated, status: 'pending' as const };
+    });
+    set({ files, results, progress });
+    outdatedUrls.forEach((url) => URL.revokeObjectURL(url));
+  },
+
+  saveResizePreset: (label, resize) =>
+    set((state) => ({
+      resizePresets: [
+        // Saving under an existing name replaces that preset
+        ...state.resizePresets.filter((preset) => preset.label !== label),
+        { id: `custom-${generateUniqueId()}`, label, resize },
+      ],
+    })),
+
+  deleteResizePreset: (id) =>
+    set((state) => ({
+      resizePresets: state.resizePresets.filter((preset) => preset.id !== id),
+    })),
+
   setIsConverting: (isConverting) => set({ isConverting }),
 
   updateFileStatus: (id, status) =>
@@ -73,4 +302,99 @@ export const useConversionStore = create<ConversionStore>((set) => ({
         file.id === id ? { ...file, status } : file
       ),
     })),
+
+  setConcurrency: (concurrency) =>
+    set({ concurrency: Math.max(1, Math.floor(concurrency)) }),
+
+  setOutputDirectory: (outputDirectory) => set({ outputDirectory }),
+
+  cancelFile: (id) => {
+    const shouldCancel = (file: ConversionFile) =>
+      file.id === id && ACTIVE_STATUSES.includes(file.status);
+    const stopped = get().files.filter(shouldCancel);
+    set((state) => ({
+      files: setStatusWhere(state.files, shouldCancel, 'cancelled'),
+    }));
+    stopped.forEach((file) => abortFile(file.id));
+  },
+
+  cancelAll: () => {
+    const shouldCancel = (file: ConversionFile) =>
+      ACTIVE_STATUSES.includes(file.status);
+    const stopped = get().files.filter(shouldCancel);
+    set((state) => ({
+      files: setStatusWhere(state.files, shouldCancel, 'cancelled'),
+    }));
+    stopped.forEach((file) => abortFile(file.id));
+  },
+
+  pauseFile: (id) => {
+    const shouldPause = (file: ConversionFile) =>
+      file.id === id &&
+      (file.status === 'pending' || file.status === 'converting');
+    const stopped = get().files.filter(shouldPause);
+    set((state) => ({
+      files: setStatusWhere(state.files, shouldPause, 'paused'),
+    }));
+    stopped.forEach((file) => abortFile(file.id));
+  },
+
+  pauseAll: () => {
+    const shouldPause = (file: ConversionFile) =>
+      file.status === 'pending' || file.status === 'converting';
+    const stopped = get().files.filter(shouldPause);
+    set((state) => ({
+      files: setStatusWhere(state.files, shouldPause, 'paused'),
+    }));
+    stopped.forEach((file) => abortFile(file.id));
+  },
+
+  resumeFile: (id) =>
+    set((state) => ({
+      files: setStatusWhere(
+        state.files,
+        (file) => file.id === id && file.status === 'paused',
+        'pending'
+      ),
+    })),
+
+  resumeAll: () =>
+    set((state) => ({
+      files: setStatusWhere(
+        state.files,
+        (file) => file.status === 'paused',
+        'pending'
+      ),
+    })),
+
+  retryFile: (id) =>
+    set((state) => {
+      const file = state.files.find((f) => f.id === id);
+      if (!file || (file.status !== 'error' && file.status !== 'cancelled')) {
+        return state;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [id]: _, ...remainingProgress } = state.progress;
+      return {
+        files: state.files.map((f) =>
+          f.id === id ? { ...f, status: 'pending' as const } : f
+        ),
+        progress: remainingProgress,
+      };
+    }),
+
+  recordAttempt: (id) =>
+    set((state) => ({
+      files: state.files.map((file) =>
+        file.id === id ? { ...file, attempts: (file.attempts ?? 0) + 1 } : file
+      ),
+    })),
+
+  recordError: (id, code) =>
+    set((state) => ({
+      files: state.files.map((file) =>
+        file.id === id ? { ...file, lastErrorCode: code } : file
+      ),
+    })),
 }));
@@ -0,0 +1,124 @@
+import { PERSISTENCE_LIMITS } from '../lib/constants';
+import { Logger } from '../lib/logger';
+import {
+  EvictionPolicy,
+  getSourceKey,
+  QueueDatabase,
+} from '../lib/persistence';
+import { useConversionStore } from './index';
+
+type StoreState = ReturnType<typeof useConversionStore.getState>;
+type PersistedState = Pick<
+  StoreState,
+  'files' | 'results' | 'settings' | 'resizePresets' | 'outputDirectory'
+>;
+
+let started: Promise<void> | null = null;
+
+/**
+ * Restores the queue saved before the last reload, then mirrors every
+ * change to IndexedDB. Safe to call repeatedly; only the first call (and
+ * its eviction policy) counts.
+ */
+export function startQueuePersistence(
+  policy: Partial<EvictionPolicy> = {}
+): Promise<void> {
+  started ??= persistQueue({
+    maxResultAgeMs: PERSISTENCE_LIMITS.MAX_RESULT_AGE_MS,
+    storageBudgetBytes: PERSISTENCE_LIMITS.STORAGE_BUDGET_BYTES,
+    ...policy,
+  });
+  return started;
+}
+
+async function persistQueue(policy: EvictionPolicy): Promise<void> {
+  const db = await QueueDatabase.open();
+  if (!db) return;
+
+  let persisted: PersistedState;
+  const storedSources = new Set<string>();
+  try {
+    await db.evictResults(policy);
+    const saved = await db.load();
+    useConversionStore.getState().restoreQueue(saved);
+
+    saved.files.forEach((file) => storedSources.add(getSourceKey(file)));
+    persisted = {
+      files: saved.files,
+      results: Object.fromEntries(saved.results.map((r) => [r.id, r])),
+      settings: saved.settings ?? useConversionStore.getState().settings,
+      resizePresets: saved.resizePresets ?? [],
+      outputDirectory: saved.outputDirectory ?? null,
+    };
+  } catch (error) {
+    Logger.warn('Could not restore the conversion queue', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  // The store only ever replaces what changed, so comparing references
+  // finds the records to write
+  const sync = (state: StoreState) => {
+    const previous = persisted;
+    persisted = state;
+    const writes: Promise<void>[] = [];
+
+    if (state.files !== previous.files) {
+      state.files.forEach((file, position) => {
+        if (previous.files[position] === file) return;
+        const key = getSourceKey(file);
+        const source = storedSources.has(key) ? undefined : file.file;
+        storedSources.add(key);
+        writes.push(db.putFile(file, position, source));
+      });
+
+      const ids = new Set(state.files.map((file) => file.id));
+      previous.files
+        .filter((file) => !ids.has(file.id))
+        .forEach((file) => writes.push(db.deleteFile(file.id)));
+
+      const keys = new Set(state.files.map(getSourceKey));
+      storedSources.forEach((key) => {
+        if (keys.has(key)) return;
+        storedSources.delete(key);
+        writes.push(db.deleteSource(key));
+      });
+    }
+
+    let hasNewResults = false;
+    if (state.results !== previous.results) {
+      Object.entries(state.results).forEach(([id, result]) => {
+        if (previous.results[id] === result) return;
+        hasNewResults = true;
+        writes.push(db.putResult(result));
+      });
+      Object.keys(previous.results)
+        .filter((id) => !(id in state.results))
+        .forEach((id) => writes.push(db.deleteResult(id)));
+    }
+
+    if (state.settings !== previous.settings) {
+      writes.push(db.putSettings(state.settings));
+    }
+    if (state.resizePresets !== previous.resizePresets) {
+      writes.push(db.putResizePresets(state.resizePresets));
+    }
+    if (state.outputDirectory !== previous.outputDirectory) {
+      writes.push(db.putOutputDirectory(state.outputDirectory));
+    }
+
+    if (writes.length === 0) return;
+    Promise.all(writes)
+      .then(() => (hasNewResults ? db.evictResults(policy) : undefined))
+      .catch((error) =>
+        Logger.warn('Could not save the conversion queue', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+  };
+
+  // Also writes anything queued while the saved state was loading
+  sync(useConversionStore.getState());
+  useConversionStore.subscribe(sync);
+}
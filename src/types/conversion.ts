@@ -1,10 +1,47 @@
+/**
+ * The conversion domain model: a queue item from upload to result. The store,
+ * hooks and components all use these types; the engine's own (ConversionOptions,
+ * ConvertedImage, PhaseProgress) are reached through lib/conversion adapters.
+ */
+import type { ErrorCode } from '../lib/constants';
+import type { ConflictPolicy } from '../lib/file-system';
+import type {
+  AuxiliaryKind,
+  ColorManagementMode,
+  CropGravity,
+  GainMapMode,
+  ImageFormat,
+  MetadataMode,
+  RelativeRegion,
+  ResamplingFilter,
+  ResizeMode,
+} from '../lib/conversion/types';
+
+export type ConversionFileStatus =
+  | 'pending'
+  | 'converting'
+  | 'paused'
+  | 'completed'
+  | 'error'
+  | 'cancelled';
+
 export interface ConversionFile {
   id: string;
   file: File;
   name: string;
   size: number;
   preview?: string;
-  status: 'pending' | 'converting' | 'completed' | 'error';
+  status: ConversionFileStatus;
+  attempts?: number;
+  lastErrorCode?: ErrorCode;
+  /** Set when one multi-image HEIC was expanded into several queue items */
+  sourceId?: string;
+  image?: {
+    itemId: number;
+    index: number; // Position among the container's top-level images
+  };
+  /** Replaces parts of the global settings for this file only */
+  overrides?: ConversionSettingsOverrides;
 }
 
 export interface ConversionProgress {
@@ -14,20 +51,67 @@ export interface ConversionProgress {
   error?: string;
 }
 
+export interface ResizeSettings {
+  mode?: ResizeMode;
+  width?: number;
+  height?: number;
+  maintainAspectRatio: boolean;
+  scalePercent?: number;
+  gravity?: CropGravity;
+  neverUpscale?: boolean;
+}
+
+/** A named resize setup, built in or saved from the settings panel */
+export interface ResizePreset {
+  id: string;
+  label: string;
+  resize: ResizeSettings;
+}
+
 export interface ConversionSettings {
-  outputFormat: 'jpg' | 'png' | 'webp';
+  outputFormat: ImageFormat;
   quality: number;
-  resize?: {
-    width?: number;
-    height?: number;
-    maintainAspectRatio: boolean;
-  };
+  resize?: ResizeSettings;
+  resampling?: ResamplingFilter;
+  sharpen?: number; // 0-100, after resizing
+  metadata?: MetadataMode;
+  bitDepth?: 8 | 16;
+  colorManagement?: ColorManagementMode;
+  gainMap?: GainMapMode;
+  /** Also save the depth map, when there is one, as a greyscale PNG */
+  exportDepthMap?: boolean;
+  /** Lossy formats only: search quality to stay under this size */
+  maxFileSizeKb?: number;
+  downscaleToFit?: boolean;
+  /**
+   * Output name such as `{date:YYYY-MM-DD}_{camera}_{index:03}.{ext}`;
+   * unset keeps the original name with the new extension
+   */
+  fileNameTemplate?: string;
+  /** When saving into a chosen folder, what to do with an existing file */
+  conflictPolicy?: ConflictPolicy;
 }
 
+export type ConversionSettingsOverrides = Partial<
+  Pick<ConversionSettings, 'outputFormat' | 'quality' | 'resize'>
+>;
+
 export interface ConversionResult {
   id: string;
   originalFile: ConversionFile;
   convertedBlob: Blob;
   downloadUrl: string;
   fileName: string;
+  format: ImageFormat;
+  /** Output dimensions in pixels */
+  width: number;
+  height: number;
+  /** Quality the file was encoded at, lossy formats only */
+  quality?: number;
+  /** Part of the original kept by a cover crop; the whole image when unset */
+  sourceRegion?: RelativeRegion;
+  /** Output folder this was written to, so it isn't written there again */
+  savedTo?: FileSystemDirectoryHandle;
+  /** Companion files such as an exported gain map, bundled when downloading */
+  auxiliaryFiles?: { kind: AuxiliaryKind; fileName: string; blob: Blob }[];
 }
@@ -0,0 +1,35 @@
+// The parts of the File System Access API that lib.dom doesn't cover yet.
+// Chromium-only for now, so everything here is feature-detected at runtime.
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: 'read' | 'readwrite';
+}
+
+interface FileSystemHandle {
+  queryPermission?(
+    descriptor?: FileSystemHandlePermissionDescriptor
+  ): Promise<PermissionState>;
+  requestPermission?(
+    descriptor?: FileSystemHandlePermissionDescriptor
+  ): Promise<PermissionState>;
+}
+
+interface DirectoryPickerOptions {
+  /** Lets the browser remember the last folder picked for this purpose */
+  id?: string;
+  mode?: 'read' | 'readwrite';
+  startIn?:
+    | FileSystemHandle
+    | 'desktop'
+    | 'documents'
+    | 'downloads'
+    | 'music'
+    | 'pictures'
+    | 'videos';
+}
+
+interface Window {
+  showDirectoryPicker?(
+    options?: DirectoryPickerOptions
+  ): Promise<FileSystemDirectoryHandle>;
+}
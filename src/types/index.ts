@@ -1,12 +1,19 @@
-// Re-export types from lib
+import type { ImageFormat } from '../lib/conversion/types';
+import type { ConversionFile } from './conversion';
+
+// The conversion domain model
+export * from './conversion';
+
+// Engine types from lib, for code that talks to the converter directly
 export type {
   ImageFormat,
   ConversionOptions,
-  ConversionResult,
+  ConvertedImage,
   ConversionError,
-  ConversionProgress,
-  ConversionProgressCallback,
+  PhaseProgress,
+  PhaseProgressCallback,
   HeicDecoder,
+  HeifImageInfo,
   ImageProcessor,
 } from '../lib/conversion/types';
 
@@ -32,22 +39,12 @@ export interface UploadedFile {
 // Application state types
 export interface AppState {
   files: UploadedFile[];
-  conversions: ConversionQueueItem[];
+  conversions: ConversionFile[];
   settings: AppSettings;
 }
 
-export interface ConversionQueueItem {
-  id: string;
-  file: File;
-  status: 'pending' | 'processing' | 'completed' | 'error';
-  progress: number;
-  outputFormat: import('../lib/conversion/types').ImageFormat;
-  result?: import('../lib/conversion/types').ConversionResult;
-  error?: import('../lib/conversion/types').ConversionError;
-}
-
 export interface AppSettings {
-  defaultOutputFormat: import('../lib/conversion/types').ImageFormat;
+  defaultOutputFormat: ImageFormat;
   defaultQuality: number;
   autoDownload: boolean;
   theme: 'light' | 'dark' | 'system';
@@ -0,0 +1,56 @@
+declare module 'libheif-js/wasm-bundle' {
+  export interface HeifImage {
+    handle: unknown;
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(
+      target: { data: Uint8ClampedArray; width: number; height: number },
+      callback: (result: { data: Uint8ClampedArray } | null) => void
+    ): void;
+    free(): void;
+  }
+
+  export interface HeifDecodedChannel {
+    id: number;
+    width: number;
+    height: number;
+    stride: number;
+    bits_per_pixel: number;
+    /** View into wasm memory, only valid until the image is released */
+    data: Uint8Array;
+  }
+
+  export interface HeifDecodedImage {
+    image: unknown;
+    channels: HeifDecodedChannel[];
+  }
+
+  export class HeifDecoder {
+    decoder: unknown;
+    decode(buffer: Uint8Array): HeifImage[];
+  }
+
+  interface LibheifModule {
+    HeifDecoder: typeof HeifDecoder;
+    heif_context_free(context: unknown): void;
+    heif_image_handle_is_primary_image(handle: unknown): number;
+    /** Item IDs in the same order as the images returned by decode() */
+    heif_js_context_get_list_of_top_level_image_IDs(
+      context: unknown
+    ): number[] | { code: number; message: string };
+    heif_get_version(): string;
+    heif_js_decode_image2(
+      handle: unknown,
+      colorspace: number,
+      chroma: number
+    ): HeifDecodedImage | { code: number; message: string } | null;
+    heif_image_release(image: unknown): void;
+    heif_colorspace: { heif_colorspace_RGB: number };
+    heif_chroma: { heif_chroma_interleaved_RRGGBBAA_LE: number };
+    heif_channel: { heif_channel_interleaved: number };
+  }
+
+  const libheif: LibheifModule;
+  export default libheif;
+}
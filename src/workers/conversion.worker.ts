@@ -0,0 +1,70 @@
+/**
+ * Conversion worker used by ConversionWorkerPool.
+ * Decodes HEIC with libheif and encodes with OffscreenCanvas, off the main thread.
+ */
+
+import { LibheifDecoder } from '../lib/conversion/decoder';
+import { toConversionError } from '../lib/conversion/errors';
+import { convertHeic } from '../lib/conversion/pipeline';
+import { CanvasImageProcessor } from '../lib/conversion/processor';
+import type {
+  WorkerRequest,
+  WorkerResponse,
+} from '../lib/conversion/worker-pool';
+
+const decoder = new LibheifDecoder();
+const processor = new CanvasImageProcessor();
+
+function send(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { type, taskId, buffer, options } = event.data;
+  if (type !== 'convert') return;
+
+  try {
+    const result = await convertHeic(buffer, options, {
+      decoder,
+      processor,
+      onProgress: (progress) => send({ type: 'progress', taskId, ...progress }),
+    });
+    // The object URL is only valid inside this worker; the pool makes its own
+    URL.revokeObjectURL(result.url);
+
+    const output = await result.blob.arrayBuffer();
+    const auxiliary = await Promise.all(
+      (result.auxiliary ?? []).map(async ({ kind, blob }) => ({
+        kind,
+        buffer: await blob.arrayBuffer(),
+        mimeType: blob.type,
+      }))
+    );
+    send(
+      {
+        type: 'result',
+        taskId,
+        buffer: output,
+        mimeType: result.blob.type,
+        format: result.format,
+        width: result.width,
+        height: result.height,
+        quality: result.quality,
+        sourceRegion: result.sourceRegion,
+        auxiliary,
+      },
+      [output, ...auxiliary.map(({ buffer }) => buffer)]
+    );
+  } catch (error) {
+    const { code, message, details } = toConversionError(error);
+    send({
+      type: 'error',
+      taskId,
+      error: {
+        code,
+        message,
+        details: details instanceof Error ? details.message : undefined,
+      },
+    });
+  }
+};